@@ -2,15 +2,73 @@
 "use client";
 
 import { useEffect, useMemo, useRef, useState } from "react";
-import type { LeadSheetDoc, ChordEvent, LyricAnchor } from "@/lib/types";
+import type { LeadSheetDoc, ChordEvent, DurationStyle, LyricAnchor, Section } from "@/lib/types";
 import { downloadJson, readJsonFile } from "@/lib/io";
-import { parseChordInput } from "@/lib/chordInput";
-import { semitoneDelta, transposeChordSymbol, KEY_TO_STYLE } from "@/lib/transpose";
+import { chordInputContext, formatChordInput, parseChordInput } from "@/lib/chordInput";
+import {
+  rekeySections,
+  semitoneDelta,
+  transposeChordSymbol,
+  transposeChordEvents,
+} from "@/lib/transpose";
+import {
+  SECTION_KINDS,
+  duplicateSection,
+  moveSection,
+  newSection,
+  nextSectionName,
+  removeSection,
+  setSectionBarCount,
+  setSectionPickup,
+  updateSection,
+} from "@/lib/sections";
+import {
+  addFormEntry,
+  formItemHeading,
+  moveFormEntry,
+  pruneForm,
+  removeFormEntry,
+  resolveForm,
+  sectionAbbrev,
+  setFormEntryRepeat,
+} from "@/lib/form";
+import { expandPlayOrder, setBarNavigation } from "@/lib/navigation";
+import { fullBarCount, meterAtBar, sectionBarTable, setMeterChange } from "@/lib/bars";
+import { isCompound } from "@/lib/meter";
+import { comparePos, samePos, type GridPos } from "@/lib/timeline";
+import { setTuplet } from "@/lib/tuplets";
+import { DURATION_STYLES } from "@/lib/durations";
+import { changeBeatUnit, rescaleSubdivision, resizeBars, type BarResizeMode } from "@/lib/rescale";
+import { deleteBars, duplicateBars, insertBars } from "@/lib/barEdits";
+import { parseChordSymbol, type ChordParseError } from "@/lib/chords/parse";
+import { formatChord, formatNote, NO_CHORD_TEXT, REST_GLYPH } from "@/lib/chords/format";
+import {
+  KEY_MODES,
+  formatKey,
+  keyAccidentalStyle,
+  keyLabel,
+  keyOptions,
+  keyTonicOptions,
+  parseKey,
+  transposeKey,
+  type KeyMode,
+} from "@/lib/keys";
+import { estimateKeys } from "@/lib/chords/keyDetection";
+import { chordPalette } from "@/lib/chords/palette";
+import { MAX_CAPO, capoChordEvents, capoShapeKey, capoTransposition, suggestCapos } from "@/lib/capo";
+import { fromNashville, isNashvilleInput, nashvilleChordEvents, toNashville } from "@/lib/chords/nashville";
+import { analyzeChordEvents, type RomanAnalysis } from "@/lib/chords/analysis";
 import { LeadSheetGrid } from "@/components/LeadSheetGrid";
+import { BarEditor, type BarEditOp } from "@/components/BarEditor";
+import { RescalePreview } from "@/components/RescalePreview";
+import { ParseErrorHint } from "@/components/ParseErrorHint";
+import { PrintVariants } from "@/components/PrintVariants";
+import { RekeyPreview } from "@/components/RekeyPreview";
+import { ChordPalette, paletteKeyMap } from "@/components/ChordPalette";
 
-const KEYS = ["C","G","D","A","E","B","F#","C#","F","Bb","Eb","Ab","Db","Gb","Cb"];
 const STORAGE_KEY = "pnc_doc_v1";
 const DELETE_TOOL = "__DELETE__";
+const REST_TOOL = "__REST__";
 
 function newDoc(): LeadSheetDoc {
   return {
@@ -31,59 +89,33 @@ function isTypingTarget(el: EventTarget | null) {
   return tag === "INPUT" || tag === "TEXTAREA" || el.isContentEditable;
 }
 
-function chordsToBeatString(chords: ChordEvent[], subdivision: number, beatsPerBar: number) {
-  if (!chords.length) return "";
-
-  const safeSub = Math.max(1, subdivision);
-  const safeBeatsPerBar = Math.max(1, beatsPerBar);
-  const barCells = safeBeatsPerBar * safeSub;
-
-  const sorted = [...chords].sort((a, b) => a.cell - b.cell);
-
-  const uniqByCell: ChordEvent[] = [];
-  for (const c of sorted) {
-    const prev = uniqByCell[uniqByCell.length - 1];
-    if (prev && prev.cell === c.cell) uniqByCell[uniqByCell.length - 1] = c;
-    else uniqByCell.push(c);
-  }
-
-  const parts: string[] = [];
-
-  const firstCell = uniqByCell[0]?.cell ?? 0;
-  if (firstCell > 0) {
-    const leadBeats = Math.max(1, Math.round(firstCell / safeSub));
-    parts.push(`X:${leadBeats}`);
-  }
-
-  for (let i = 0; i < uniqByCell.length; i++) {
-    const cur = uniqByCell[i];
-    const next = uniqByCell[i + 1];
-
-    let cellDelta: number;
-
-    if (next) cellDelta = Math.max(0, next.cell - cur.cell);
-    else {
-      const cellInBar = ((cur.cell % barCells) + barCells) % barCells;
-      cellDelta = Math.max(0, barCells - cellInBar);
-    }
-
-    const beats = Math.max(1, Math.round(cellDelta / safeSub));
-    parts.push(`${cur.symbol}:${beats}`);
-  }
-
-  return parts.join(" ");
-}
-
 export default function Home() {
   const [doc, setDoc] = useState<LeadSheetDoc>(() => newDoc());
   const [lastLoaded, setLastLoaded] = useState<string>("");
   const [selectedCharIndex, setSelectedCharIndex] = useState<number | null>(null);
+  const [activeSectionId, setActiveSectionId] = useState<string | null>(null);
+  const [selectedFormEntryId, setSelectedFormEntryId] = useState<string | null>(null);
+  const [selectedBar, setSelectedBar] = useState<{ sectionId: string; barIndex: number } | null>(null);
+
+  // Grid change waiting for confirmation (existing chords/anchors get remapped)
+  const [pendingGrid, setPendingGrid] = useState<
+    | { kind: "subdivision"; value: number }
+    | { kind: "beatsPerBar"; value: number; mode: BarResizeMode }
+    | { kind: "beatUnit"; value: number }
+    | null
+  >(null);
+
+  // Re-key target waiting for confirmation (stored chords get rewritten)
+  const [pendingRekey, setPendingRekey] = useState<string | null>(null);
 
   // Chord tools state
   const [armedChord, setArmedChord] = useState<string | null>(null);
   const [recentChords, setRecentChords] = useState<string[]>([]);
   const [chordQuickInput, setChordQuickInput] = useState<string>("");
+  const [chordInputError, setChordInputError] = useState<ChordParseError | null>(null);
   const [chordDraft, setChordDraft] = useState<string>("");
+  // Kept with the draft it belongs to, so switching sections drops it.
+  const [chordDraftError, setChordDraftError] = useState<{ source: string; error: ChordParseError } | null>(null);
 
   // Dock collapse state
   const [chordToolsOpen, setChordToolsOpen] = useState(true);
@@ -110,27 +142,137 @@ export default function Home() {
     }
   }, [doc]);
 
-  const section = doc.sections[0];
+  const section = doc.sections.find((s) => s.id === activeSectionId) ?? doc.sections[0];
 
   const delta = useMemo(
     () => semitoneDelta(doc.originalKey, doc.displayKey),
     [doc.originalKey, doc.displayKey]
   );
 
-  const displayAccStyle = KEY_TO_STYLE[doc.displayKey] ?? "sharps";
-  const originalAccStyle = KEY_TO_STYLE[doc.originalKey] ?? "sharps";
 
-  const displayChords: ChordEvent[] = useMemo(() => {
-    if (delta === 0) return section.chords;
-    return section.chords.map((c) => ({
-      ...c,
-      symbol: transposeChordSymbol(c.symbol, delta, displayAccStyle),
-    }));
-  }, [section.chords, delta, displayAccStyle]);
+  const displayTransposition = useMemo(
+    () => ({ fromKey: doc.originalKey, toKey: doc.displayKey, spelling: doc.spelling }),
+    [doc.originalKey, doc.displayKey, doc.spelling]
+  );
+
+  // Both keys share the original key's mode; the selects edit tonic and mode separately.
+  const keyMode: KeyMode = parseKey(doc.originalKey)?.mode ?? "major";
+  const keyTonicText = (key: string) => {
+    const k = parseKey(key);
+    return k ? formatNote(k.tonic) : key;
+  };
+  const tonicOptions = (key: string) => {
+    const options = keyTonicOptions(keyMode);
+    const current = keyTonicText(key);
+    return options.includes(current) ? options : [current, ...options];
+  };
+
+  function setKeys(next: { original?: string; display?: string; mode?: KeyMode }) {
+    const mode = next.mode ?? keyMode;
+    const build = (tonicText: string, fallback: string) => {
+      const tonic = parseKey(tonicText)?.tonic;
+      return tonic ? formatKey({ tonic, mode }) : fallback;
+    };
+
+    setDoc({
+      ...doc,
+      originalKey: build(next.original ?? keyTonicText(doc.originalKey), doc.originalKey),
+      displayKey: build(next.display ?? keyTonicText(doc.displayKey), doc.displayKey),
+      updatedAt: new Date().toISOString(),
+    });
+  }
+
+  // Key suggestions from the stored chords (so they name candidates for `originalKey`).
+  const keyEstimates = useMemo(
+    () =>
+      estimateKeys({
+        sections: doc.sections,
+        timeSignature: doc.timeSignature,
+        subdivision: doc.subdivision,
+      }),
+    [doc.sections, doc.timeSignature, doc.subdivision]
+  );
+
+  /**
+   * Set `originalKey` without touching the stored chords. The display key keeps the
+   * current transposition interval, so the chart on screen doesn't change either.
+   */
+  function applyDetectedKey(key: string) {
+    setDoc({
+      ...doc,
+      originalKey: key,
+      displayKey: transposeKey(key, delta, keyAccidentalStyle(doc.displayKey)),
+      updatedAt: new Date().toISOString(),
+    });
+  }
+
+  // Re-key: the stored chords move to the new key for good and the display delta becomes zero.
+  const rekeyOptions = keyOptions(keyMode);
+
+  function applyRekey(toKey: string) {
+    const { sections } = rekeySections(doc.sections, doc.originalKey, toKey);
+    // Pinned favourites are stored in originalKey too.
+    const pinnedChords = doc.pinnedChords?.map((sym) =>
+      transposeChordSymbol(sym, { fromKey: doc.originalKey, toKey, spelling: "key" })
+    );
+    setDoc({
+      ...doc,
+      sections,
+      pinnedChords,
+      originalKey: toKey,
+      displayKey: toKey,
+      updatedAt: new Date().toISOString(),
+    });
+    setChordDraft("");
+    setPendingRekey(null);
+  }
+
+  const formItems = useMemo(() => resolveForm(doc), [doc]);
+
+  const selectedFormEntry = doc.form?.find((e) => e.id === selectedFormEntryId) ?? null;
+
+  const selectedBarSection = selectedBar
+    ? doc.sections.find((s) => s.id === selectedBar.sectionId) ?? null
+    : null;
+  const selectedBarTable = selectedBarSection
+    ? sectionBarTable({
+        chords: selectedBarSection.chords,
+        anchors: selectedBarSection.anchors,
+        timeSignature: doc.timeSignature,
+        subdivision: doc.subdivision,
+        meterChanges: selectedBarSection.meterChanges,
+        pickupBeats: selectedBarSection.pickupBeats,
+        barCount: selectedBarSection.barCount,
+      })
+    : [];
+
+  const activeBarCount = useMemo(
+    () =>
+      fullBarCount(
+        sectionBarTable({
+          chords: section.chords,
+          anchors: section.anchors,
+          timeSignature: doc.timeSignature,
+          subdivision: doc.subdivision,
+          meterChanges: section.meterChanges,
+          pickupBeats: section.pickupBeats,
+          barCount: section.barCount,
+        })
+      ),
+    [section, doc.timeSignature, doc.subdivision]
+  );
+
+  const displayChordsBySection = useMemo(() => {
+    const out = new Map<string, ChordEvent[]>();
+    for (const s of doc.sections) {
+      out.set(s.id, transposeChordEvents(s.chords, displayTransposition));
+    }
+    return out;
+  }, [doc.sections, displayTransposition]);
 
   const chordStringFromDoc = useMemo(() => {
-    return chordsToBeatString(section.chords, doc.subdivision, doc.timeSignature.beatsPerBar);
-  }, [section.chords, doc.subdivision, doc.timeSignature.beatsPerBar]);
+    return formatChordInput(section.chords, chordInputContext(doc, section));
+  }, [section, doc]);
 
   useEffect(() => {
     setChordDraft((prev) => (prev ? prev : chordStringFromDoc));
@@ -140,7 +282,7 @@ export default function Home() {
     setRecentChords((prev) => {
       if (prev.length) return prev;
       const uniq: string[] = [];
-      for (const c of displayChords) {
+      for (const c of Array.from(displayChordsBySection.values()).flat()) {
         const s = (c.symbol || "").trim();
         if (!s) continue;
         if (!uniq.includes(s)) uniq.push(s);
@@ -148,7 +290,75 @@ export default function Home() {
       }
       return uniq;
     });
-  }, [displayChords]);
+  }, [displayChordsBySection]);
+
+  // Grid chords as shown: letters in the display key, capo shapes, or Nashville numbers
+  // relative to the display key (numbers don't change with a capo).
+  // Everything else (recents, armed chord) stays in letters so placement can transpose it.
+  const nashville = doc.chordDisplay === "nashville";
+  const capo = doc.capo ?? 0;
+  const gridChordsBySection = useMemo(() => {
+    if (!nashville && !capo) return displayChordsBySection;
+    const out = new Map<string, ChordEvent[]>();
+    for (const [id, chords] of Array.from(displayChordsBySection)) {
+      out.set(
+        id,
+        nashville
+          ? nashvilleChordEvents(chords, doc.displayKey)
+          : capoChordEvents(chords, doc.displayKey, capo, doc.spelling)
+      );
+    }
+    return out;
+  }, [nashville, capo, displayChordsBySection, doc.displayKey, doc.spelling]);
+
+  const capoSuggestions = useMemo(() => {
+    const symbols = Array.from(displayChordsBySection.values())
+      .flat()
+      .filter((c) => !c.kind)
+      .map((c) => c.symbol);
+    return suggestCapos({ soundingKey: doc.displayKey, symbols, spelling: doc.spelling });
+  }, [displayChordsBySection, doc.displayKey, doc.spelling]);
+
+  // Roman numerals relative to the display key (computed from letters, whatever the chord display).
+  const analysisBySection = useMemo(() => {
+    const out = new Map<string, Map<string, RomanAnalysis>>();
+    if (!doc.showAnalysis) return out;
+    for (const [id, chords] of Array.from(displayChordsBySection)) {
+      out.set(id, analyzeChordEvents(chords, doc.displayKey));
+    }
+    return out;
+  }, [doc.showAnalysis, displayChordsBySection, doc.displayKey]);
+
+  const chordLabel = (displaySymbol: string) =>
+    nashville
+      ? toNashville(displaySymbol, doc.displayKey)
+      : capo
+      ? transposeChordSymbol(displaySymbol, capoTransposition(doc.displayKey, capo, doc.spelling))
+      : displaySymbol;
+
+  // Palette generated from the display key, plus the song's pinned favourites (shown in the display key).
+  const palette = useMemo(() => chordPalette(doc.displayKey), [doc.displayKey]);
+  const paletteKeys = useMemo(() => paletteKeyMap(palette), [palette]);
+  const pinnedChords = useMemo(
+    () => (doc.pinnedChords ?? []).map((s) => transposeChordSymbol(s, displayTransposition)),
+    [doc.pinnedChords, displayTransposition]
+  );
+
+  function pinChord(displaySymbol: string) {
+    const stored = transposeChordSymbol(displaySymbol, {
+      fromKey: doc.displayKey,
+      toKey: doc.originalKey,
+      spelling: "plain",
+    });
+    const pinned = doc.pinnedChords ?? [];
+    if (pinned.includes(stored)) return;
+    setDoc({ ...doc, pinnedChords: [...pinned, stored], updatedAt: new Date().toISOString() });
+  }
+
+  function unpinChord(index: number) {
+    const pinned = (doc.pinnedChords ?? []).filter((_, i) => i !== index);
+    setDoc({ ...doc, pinnedChords: pinned.length ? pinned : undefined, updatedAt: new Date().toISOString() });
+  }
 
   function bumpRecent(displaySymbol: string) {
     const sym = displaySymbol.trim();
@@ -156,7 +366,8 @@ export default function Home() {
     setRecentChords((prev) => [sym, ...prev.filter((x) => x !== sym)].slice(0, 9));
   }
 
-  // Keyboard: 1-9 selects chord; Esc clears chord mode
+  // Keyboard: 1-9 selects a recent chord, Shift+1-9 a pinned one, letters the palette
+  // (see ChordPalette); Esc clears chord mode
   useEffect(() => {
     function onKeyDown(e: KeyboardEvent) {
       if (isTypingTarget(e.target)) return;
@@ -165,6 +376,19 @@ export default function Home() {
         setArmedChord(null);
         return;
       }
+      if (e.ctrlKey || e.metaKey || e.altKey) return;
+
+      if (e.shiftKey && /^Digit[1-9]$/.test(e.code)) {
+        const sym = pinnedChords[Number(e.code.slice(5)) - 1];
+        if (sym) setArmedChord(sym);
+        return;
+      }
+
+      const entry = paletteKeys.get(e.key);
+      if (entry) {
+        setArmedChord(entry.symbol);
+        return;
+      }
 
       const n = Number(e.key);
       if (Number.isFinite(n) && n >= 1 && n <= 9) {
@@ -175,113 +399,338 @@ export default function Home() {
 
     window.addEventListener("keydown", onKeyDown);
     return () => window.removeEventListener("keydown", onKeyDown);
-  }, [recentChords]);
-
-  function setLyrics(next: string) {
-    const nextAnchors = section.anchors
-      .map((a) => ({ ...a, charIndex: Math.min(a.charIndex, next.length) }))
-      .filter((a) => a.charIndex >= 0);
+  }, [recentChords, pinnedChords, paletteKeys]);
 
+  function patchSection(id: string, patch: Partial<Omit<Section, "id">>) {
     setDoc({
       ...doc,
-      sections: [{ ...section, lyrics: next, anchors: nextAnchors }],
+      sections: updateSection(doc.sections, id, patch),
       updatedAt: new Date().toISOString(),
     });
+  }
 
-    if (selectedCharIndex !== null && selectedCharIndex > next.length) {
-      setSelectedCharIndex(null);
+  function gridChangeResult(change: NonNullable<typeof pendingGrid>) {
+    if (change.kind === "subdivision") {
+      return rescaleSubdivision(doc.sections, doc.subdivision, change.value);
     }
+    if (change.kind === "beatUnit") return changeBeatUnit(doc.sections);
+    return resizeBars(doc.sections, {
+      timeSignature: doc.timeSignature,
+      beatsPerBar: change.value,
+      subdivision: doc.subdivision,
+      mode: change.mode,
+    });
   }
 
-  function addAnchor(charIndex: number, cell: number) {
-    const clamped = Math.max(0, Math.min(charIndex, section.lyrics.length));
-    const filtered = section.anchors.filter((a) => a.charIndex !== clamped);
+  function applyGridChange(change: NonNullable<typeof pendingGrid>) {
+    const { sections } = gridChangeResult(change);
+    const next: LeadSheetDoc =
+      change.kind === "subdivision"
+        ? { ...doc, sections, subdivision: change.value }
+        : change.kind === "beatUnit"
+        ? { ...doc, sections, timeSignature: { ...doc.timeSignature, beatUnit: change.value } }
+        : { ...doc, sections, timeSignature: { ...doc.timeSignature, beatsPerBar: change.value } };
+
+    setDoc({ ...next, updatedAt: new Date().toISOString() });
+    setPendingGrid(null);
+    setSelectedBar(null);
+
+    const active = sections.find((s) => s.id === section.id);
+    if (active) setChordDraft(formatChordInput(active.chords, chordInputContext(next, active)));
+  }
+
+  /**
+   * Grid edits apply at once on an empty doc; otherwise they wait for the preview.
+   */
+  function requestGridChange(change: NonNullable<typeof pendingGrid>) {
+    const current =
+      change.kind === "subdivision"
+        ? doc.subdivision
+        : change.kind === "beatUnit"
+        ? doc.timeSignature.beatUnit
+        : doc.timeSignature.beatsPerBar;
+    if (change.value === current) {
+      setPendingGrid(null);
+      return;
+    }
+
+    const hasEvents = doc.sections.some((s) => s.chords.length || s.anchors.length);
+    if (hasEvents) setPendingGrid(change);
+    else applyGridChange(change);
+  }
 
-    const nextAnchor: LyricAnchor = { id: crypto.randomUUID(), charIndex: clamped, cell };
-    const nextAnchors = [...filtered, nextAnchor].sort((a, b) => a.cell - b.cell);
+  function selectSection(id: string) {
+    if (id === section.id) return;
+    const target = doc.sections.find((s) => s.id === id);
+    if (!target) return;
 
+    setActiveSectionId(id);
+    setSelectedCharIndex(null);
+    setSelectedBar(null);
+    setChordDraft(formatChordInput(target.chords, chordInputContext(doc, target)));
+  }
+
+  function selectBar(sectionId: string, barIndex: number) {
+    selectSection(sectionId);
+    setSelectedBar((prev) =>
+      prev && prev.sectionId === sectionId && prev.barIndex === barIndex ? null : { sectionId, barIndex }
+    );
+  }
+
+  function addSection(kind: string) {
+    const created = newSection(nextSectionName(doc.sections, kind));
     setDoc({
       ...doc,
-      sections: [{ ...section, anchors: nextAnchors }],
+      sections: [...doc.sections, created],
       updatedAt: new Date().toISOString(),
     });
+    setActiveSectionId(created.id);
+    setSelectedCharIndex(null);
+    setChordDraft("");
   }
 
-  function undoLastAnchor() {
-    if (!section.anchors.length) return;
+  function duplicateActiveSection() {
+    const { sections, copy } = duplicateSection(doc.sections, section.id);
+    if (!copy) return;
+    setDoc({ ...doc, sections, updatedAt: new Date().toISOString() });
+    setActiveSectionId(copy.id);
+    setSelectedCharIndex(null);
+  }
+
+  function moveActiveSection(dir: -1 | 1) {
     setDoc({
       ...doc,
-      sections: [{ ...section, anchors: section.anchors.slice(0, -1) }],
+      sections: moveSection(doc.sections, section.id, dir),
       updatedAt: new Date().toISOString(),
     });
   }
 
-  function placeChordAtCell(displaySymbol: string, cell: number) {
-    const storageSymbol =
-      delta === 0 ? displaySymbol : transposeChordSymbol(displaySymbol, -delta, originalAccStyle);
+  function deleteActiveSection() {
+    if (doc.sections.length <= 1) return;
+    const hasContent = section.chords.length > 0 || section.lyrics.trim().length > 0;
+    if (hasContent && !window.confirm(`Delete "${section.name}"?`)) return;
 
-    const filtered = section.chords.filter((c) => c.cell !== cell);
+    const idx = doc.sections.findIndex((s) => s.id === section.id);
+    const sections = removeSection(doc.sections, section.id);
+    const fallback = sections[Math.min(idx, sections.length - 1)];
 
-    const next: ChordEvent = { id: crypto.randomUUID(), cell, symbol: storageSymbol };
-    const nextChords = [...filtered, next].sort((a, b) => a.cell - b.cell);
+    setDoc({
+      ...doc,
+      sections,
+      form: pruneForm(doc.form, sections),
+      updatedAt: new Date().toISOString(),
+    });
+    setActiveSectionId(fallback.id);
+    setSelectedCharIndex(null);
+    setChordDraft(formatChordInput(fallback.chords, chordInputContext(doc, fallback)));
+  }
 
+  function setPickup(beats: number) {
+    const next = setSectionPickup(section, beats, doc.subdivision);
     setDoc({
       ...doc,
-      sections: [{ ...section, chords: nextChords }],
+      sections: doc.sections.map((s) => (s.id === section.id ? next : s)),
       updatedAt: new Date().toISOString(),
     });
+    setChordDraft(formatChordInput(next.chords, chordInputContext(doc, next)));
+    setSelectedBar(null);
+  }
 
-    bumpRecent(displaySymbol);
+  function setBarCount(count: number) {
+    const next = setSectionBarCount(section, count, doc.timeSignature, doc.subdivision);
+    const drops = next.chords.length < section.chords.length || next.anchors.length < section.anchors.length;
+    if (drops && !window.confirm("Remove the last bar and the chords/lyric anchors in it?")) return;
+
+    setDoc({
+      ...doc,
+      sections: doc.sections.map((s) => (s.id === section.id ? next : s)),
+      updatedAt: new Date().toISOString(),
+    });
+    setChordDraft(formatChordInput(next.chords, chordInputContext(doc, next)));
+    setSelectedBar(null);
   }
 
-  function removeChordAtCell(cell: number) {
-    const before = section.chords.length;
-    const nextChords = section.chords.filter((c) => c.cell !== cell);
-    if (nextChords.length === before) return;
+  function editBars(target: Section, barIndex: number, op: BarEditOp, count: number) {
+    const { timeSignature, subdivision } = doc;
+    const next =
+      op === "insertBefore"
+        ? insertBars(target, barIndex, count, timeSignature, subdivision)
+        : op === "insertAfter"
+        ? insertBars(target, barIndex + 1, count, timeSignature, subdivision)
+        : op === "duplicate"
+        ? duplicateBars(target, barIndex, count, timeSignature, subdivision)
+        : deleteBars(target, barIndex, count, timeSignature, subdivision);
+
+    const drops = next.chords.length < target.chords.length || next.anchors.length < target.anchors.length;
+    const confirmText = "Delete these bars with their chords? Lyrics anchored there become unanchored.";
+    if (op === "delete" && drops && !window.confirm(confirmText)) return;
 
     setDoc({
       ...doc,
-      sections: [{ ...section, chords: nextChords }],
+      sections: doc.sections.map((s) => (s.id === target.id ? next : s)),
       updatedAt: new Date().toISOString(),
     });
+    if (target.id === section.id) setChordDraft(formatChordInput(next.chords, chordInputContext(doc, next)));
+
+    // Keep the same musical bar selected (it moved right when bars went in before it).
+    if (op === "delete") setSelectedBar(null);
+    else if (op === "insertBefore") setSelectedBar({ sectionId: target.id, barIndex: barIndex + count });
+  }
+
+  function setForm(form: LeadSheetDoc["form"]) {
+    setDoc({ ...doc, form, updatedAt: new Date().toISOString() });
+  }
+
+  function appendActiveSectionToForm() {
+    // Starting a form from scratch: seed it with the current section order so
+    // adding one reference doesn't make every other section disappear.
+    const base = doc.form?.length
+      ? doc.form
+      : doc.sections.map((s) => ({ id: crypto.randomUUID(), sectionId: s.id }));
+    const form = addFormEntry(base, section.id);
+    setForm(form);
+    setSelectedFormEntryId(form[form.length - 1].id);
+  }
+
+  function setLyrics(next: string) {
+    const nextAnchors = section.anchors
+      .map((a) => ({ ...a, charIndex: Math.min(a.charIndex, next.length) }))
+      .filter((a) => a.charIndex >= 0);
+
+    patchSection(section.id, { lyrics: next, anchors: nextAnchors });
+
+    if (selectedCharIndex !== null && selectedCharIndex > next.length) {
+      setSelectedCharIndex(null);
+    }
+  }
+
+  function addAnchor(charIndex: number, pos: GridPos) {
+    const clamped = Math.max(0, Math.min(charIndex, section.lyrics.length));
+    const filtered = section.anchors.filter((a) => a.charIndex !== clamped);
+
+    const nextAnchor: LyricAnchor = { id: crypto.randomUUID(), charIndex: clamped, ...pos };
+    const nextAnchors = [...filtered, nextAnchor].sort(comparePos);
+
+    patchSection(section.id, { anchors: nextAnchors });
+  }
+
+  function undoLastAnchor() {
+    if (!section.anchors.length) return;
+    patchSection(section.id, { anchors: section.anchors.slice(0, -1) });
+  }
+
+  function placeChordAtCell(target: Section, displaySymbol: string, pos: GridPos) {
+    const filtered = target.chords.filter((c) => !samePos(c, pos));
+    const id = crypto.randomUUID();
+
+    let next: ChordEvent;
+    if (displaySymbol === REST_TOOL) next = { id, ...pos, symbol: "", kind: "rest" };
+    else if (displaySymbol === NO_CHORD_TEXT) next = { id, ...pos, symbol: NO_CHORD_TEXT, kind: "noChord" };
+    else {
+      // Typed in the display key: stored with the plainest spelling (F in F# → B in C, not Cb).
+      const storageSymbol =
+        delta === 0
+          ? displaySymbol
+          : transposeChordSymbol(displaySymbol, {
+              fromKey: doc.displayKey,
+              toKey: doc.originalKey,
+              spelling: "plain",
+            });
+      next = { id, ...pos, symbol: storageSymbol };
+    }
+    const nextChords = [...filtered, next].sort(comparePos);
+
+    patchSection(target.id, { chords: nextChords });
+
+    if (displaySymbol !== REST_TOOL) bumpRecent(displaySymbol);
+  }
+
+
+  function removeChordAtCell(target: Section, pos: GridPos) {
+    const before = target.chords.length;
+    const nextChords = target.chords.filter((c) => !samePos(c, pos));
+    if (nextChords.length === before) return;
+
+    patchSection(target.id, { chords: nextChords });
   }
 
-  function onBeatClick(cell: number) {
+  function onBeatClick(sectionId: string, pos: GridPos) {
+    const target = doc.sections.find((s) => s.id === sectionId);
+    if (!target) return;
+
+    // Chord tools work on whichever section was clicked; anchoring needs a word
+    // selected in that same section, so clicking elsewhere just switches sections.
+    if (target.id !== section.id) {
+      selectSection(target.id);
+      if (!armedChord) return;
+    }
+
     if (armedChord === DELETE_TOOL) {
-      removeChordAtCell(cell);
+      removeChordAtCell(target, pos);
       return;
     }
 
     if (armedChord) {
-      placeChordAtCell(armedChord, cell);
+      placeChordAtCell(target, armedChord, pos);
       return;
     }
 
     if (selectedCharIndex === null) return;
-    addAnchor(selectedCharIndex, cell);
+    addAnchor(selectedCharIndex, pos);
     setSelectedCharIndex(null);
   }
 
   function armChordFromInput() {
-    const sym = chordQuickInput.trim();
-    if (!sym) return;
+    if (!chordQuickInput.trim()) return;
+
+    // "4", "2m7", "5/7": a Nashville number in the display key. Only in Nashville
+    // display, so letter input like "b7" (B7) isn't read as a flat-seven.
+    if (nashville && isNashvilleInput(chordQuickInput)) {
+      const sym = fromNashville(chordQuickInput, doc.displayKey);
+      if (!sym) {
+        setChordInputError({ message: "Not a valid number chord", start: 0, end: chordQuickInput.length });
+        return;
+      }
+      setChordInputError(null);
+      setArmedChord(sym);
+      bumpRecent(sym);
+      setChordQuickInput("");
+      return;
+    }
+
+    const parsed = parseChordSymbol(chordQuickInput);
+    if (!parsed.ok) {
+      setChordInputError(parsed.error);
+      return;
+    }
+
+    const sym = formatChord(parsed.chord);
+    setChordInputError(null);
     setArmedChord(sym);
     bumpRecent(sym);
     setChordQuickInput("");
   }
 
   function applyChordDraft() {
-    const chords = parseChordInput(chordDraft, doc.subdivision);
-    setDoc({
-      ...doc,
-      sections: [{ ...section, chords }],
-      updatedAt: new Date().toISOString(),
-    });
-    setChordDraft(chordsToBeatString(chords, doc.subdivision, doc.timeSignature.beatsPerBar));
+    const result = parseChordInput(chordDraft, chordInputContext(doc, section));
+    if (!result.ok) {
+      setChordDraftError({ source: chordDraft, error: result.error });
+      return;
+    }
+
+    setChordDraftError(null);
+    patchSection(section.id, { chords: result.chords });
+    setChordDraft(formatChordInput(result.chords, chordInputContext(doc, section)));
   }
 
   const armedLabel =
-    armedChord === DELETE_TOOL ? "Delete chord" : armedChord ? `Chord: ${armedChord}` : "none";
+    armedChord === DELETE_TOOL
+      ? "Delete chord"
+      : armedChord === REST_TOOL
+      ? `Rest ${REST_GLYPH}`
+      : armedChord
+      ? `Chord: ${chordLabel(armedChord) !== armedChord ? `${chordLabel(armedChord)} (${armedChord})` : armedChord}`
+      : "none";
 
   const lyricsSummary = section.lyrics
     ? `${section.lyrics.split("\n").length} line(s)`
@@ -306,6 +755,13 @@ export default function Home() {
               >
                 Print Preview
               </button>
+              <button
+                type="button"
+                onClick={() => window.open("/print?parts=all", "_blank", "noopener,noreferrer")}
+                title="Concert, Bb, Eb and F parts, one per page"
+              >
+                Print all parts
+              </button>
 
               <input
                 ref={fileRef}
@@ -338,69 +794,224 @@ export default function Home() {
 
             <div className="field">
               <div className="fieldLabel">Original key</div>
+              <div className="inline">
+                <select
+                  value={keyTonicText(doc.originalKey)}
+                  onChange={(e) => setKeys({ original: e.target.value })}
+                >
+                  {tonicOptions(doc.originalKey).map((k) => (
+                    <option key={k} value={k}>{k}</option>
+                  ))}
+                </select>
+                <select
+                  value={keyMode}
+                  onChange={(e) => setKeys({ mode: e.target.value as KeyMode })}
+                  title="Mode (applies to both keys)"
+                >
+                  {KEY_MODES.map((m) => (
+                    <option key={m} value={m}>{m}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+
+            <div className="field">
+              <div className="fieldLabel">Display key</div>
+              <div className="inline">
+                <select
+                  value={keyTonicText(doc.displayKey)}
+                  onChange={(e) => setKeys({ display: e.target.value })}
+                >
+                  {tonicOptions(doc.displayKey).map((k) => (
+                    <option key={k} value={k}>{k}</option>
+                  ))}
+                </select>
+                <button
+                  type="button"
+                  onClick={() => setPendingRekey(doc.displayKey)}
+                  title="Rewrite the stored chords in a new original key"
+                >
+                  Re-key…
+                </button>
+              </div>
+            </div>
+
+            <div className="field">
+              <div className="fieldLabel">Chords</div>
               <select
-                value={doc.originalKey}
+                value={doc.chordDisplay ?? "letters"}
                 onChange={(e) =>
-                  setDoc({ ...doc, originalKey: e.target.value, updatedAt: new Date().toISOString() })
+                  setDoc({
+                    ...doc,
+                    chordDisplay: e.target.value === "nashville" ? "nashville" : undefined,
+                    updatedAt: new Date().toISOString(),
+                  })
                 }
+                title="Nashville numbers are relative to the display key"
               >
-                {KEYS.map((k) => (
-                  <option key={k} value={k}>{k}</option>
+                <option value="letters">Letters</option>
+                <option value="nashville">Nashville</option>
+              </select>
+            </div>
+
+            <div className="field">
+              <div className="fieldLabel">Durations</div>
+              <select
+                value={doc.durationStyle ?? "ticks"}
+                onChange={(e) => {
+                  const style = e.target.value as DurationStyle;
+                  setDoc({
+                    ...doc,
+                    durationStyle: style === "ticks" ? undefined : style,
+                    updatedAt: new Date().toISOString(),
+                  });
+                }}
+                title="How chord lengths are marked over the chords, in the editor and in print"
+              >
+                {DURATION_STYLES.map((d) => (
+                  <option key={d.id} value={d.id}>
+                    {d.label}
+                  </option>
                 ))}
               </select>
             </div>
 
             <div className="field">
-              <div className="fieldLabel">Display key</div>
+              <div className="fieldLabel">Capo</div>
               <select
-                value={doc.displayKey}
+                value={capo}
                 onChange={(e) =>
-                  setDoc({ ...doc, displayKey: e.target.value, updatedAt: new Date().toISOString() })
+                  setDoc({
+                    ...doc,
+                    capo: Number(e.target.value) || undefined,
+                    updatedAt: new Date().toISOString(),
+                  })
+                }
+                title={
+                  capo
+                    ? `${keyLabel(capoShapeKey(doc.displayKey, capo))} shapes, sounding in ${keyLabel(doc.displayKey)}`
+                    : "Show chords as shapes to play with a capo"
                 }
               >
-                {KEYS.map((k) => (
-                  <option key={k} value={k}>{k}</option>
+                <option value={0}>None</option>
+                {Array.from({ length: MAX_CAPO }, (_, i) => i + 1).map((fret) => (
+                  <option key={fret} value={fret}>{fret}</option>
                 ))}
               </select>
             </div>
 
+            <div className="field">
+              <div className="fieldLabel">Spelling</div>
+              <select
+                value={doc.spelling ?? "key"}
+                onChange={(e) =>
+                  setDoc({
+                    ...doc,
+                    spelling: e.target.value === "simplified" ? "simplified" : undefined,
+                    updatedAt: new Date().toISOString(),
+                  })
+                }
+                title="Key-aware spelling writes E# in F# major; simplified writes F"
+              >
+                <option value="key">By key</option>
+                <option value="simplified">Simplified</option>
+              </select>
+            </div>
+
             <div className="field">
               <div className="fieldLabel">Beats / bar</div>
               <input
                 type="number"
                 min={1}
-                value={doc.timeSignature.beatsPerBar}
+                value={
+                  pendingGrid?.kind === "beatsPerBar" ? pendingGrid.value : doc.timeSignature.beatsPerBar
+                }
                 onChange={(e) =>
-                  setDoc({
-                    ...doc,
-                    timeSignature: {
-                      ...doc.timeSignature,
-                      beatsPerBar: Math.max(1, Number(e.target.value || 4)),
-                    },
-                    updatedAt: new Date().toISOString(),
+                  requestGridChange({
+                    kind: "beatsPerBar",
+                    value: Math.max(1, Number(e.target.value || 4)),
+                    mode: pendingGrid?.kind === "beatsPerBar" ? pendingGrid.mode : "bars",
                   })
                 }
                 style={{ width: 110 }}
               />
             </div>
 
+            <div className="field">
+              <div className="fieldLabel">Beat unit</div>
+              <select
+                value={pendingGrid?.kind === "beatUnit" ? pendingGrid.value : doc.timeSignature.beatUnit}
+                onChange={(e) => requestGridChange({ kind: "beatUnit", value: Number(e.target.value) })}
+              >
+                {[2, 4, 8, 16].map((u) => (
+                  <option key={u} value={u}>{u}</option>
+                ))}
+              </select>
+            </div>
+
             <div className="field">
               <div className="fieldLabel">Subdivision</div>
               <input
                 type="number"
                 min={1}
-                value={doc.subdivision}
+                value={pendingGrid?.kind === "subdivision" ? pendingGrid.value : doc.subdivision}
                 onChange={(e) =>
-                  setDoc({
-                    ...doc,
-                    subdivision: Math.max(1, Number(e.target.value || 1)),
-                    updatedAt: new Date().toISOString(),
-                  })
+                  requestGridChange({ kind: "subdivision", value: Math.max(1, Number(e.target.value || 1)) })
                 }
                 style={{ width: 110 }}
               />
             </div>
 
+            <div className="field">
+              <div className="fieldLabel">Feel</div>
+              <label className="inline" title="Eighths are played swung (shown in the print header)">
+                <input
+                  type="checkbox"
+                  checked={!!doc.swing}
+                  onChange={(e) =>
+                    setDoc({
+                      ...doc,
+                      swing: e.target.checked || undefined,
+                      updatedAt: new Date().toISOString(),
+                    })
+                  }
+                />
+                Swing
+              </label>
+            </div>
+
+            <div className="field">
+              <div className="fieldLabel">Analysis</div>
+              <label className="inline" title="Roman numerals under the chords, relative to the display key">
+                <input
+                  type="checkbox"
+                  checked={!!doc.showAnalysis}
+                  onChange={(e) =>
+                    setDoc({
+                      ...doc,
+                      showAnalysis: e.target.checked || undefined,
+                      updatedAt: new Date().toISOString(),
+                    })
+                  }
+                />
+                Editor
+              </label>
+              <label className="inline" title="Print the Roman numeral row on the chart">
+                <input
+                  type="checkbox"
+                  checked={!!doc.printAnalysis}
+                  onChange={(e) =>
+                    setDoc({
+                      ...doc,
+                      printAnalysis: e.target.checked || undefined,
+                      updatedAt: new Date().toISOString(),
+                    })
+                  }
+                />
+                Print
+              </label>
+            </div>
+
             <div className="spacer" />
 
             <div className="muted">
@@ -409,6 +1020,274 @@ export default function Home() {
             </div>
           </div>
 
+          {keyEstimates.length ? (
+            <div className="sectionsRow">
+              <div className="fieldLabel">Key from chords</div>
+              {keyEstimates.map((e) => (
+                <button
+                  key={e.key}
+                  type="button"
+                  className={e.key === doc.originalKey ? "chip chipActive" : "chip"}
+                  onClick={() => applyDetectedKey(e.key)}
+                  title="Set as the original key (stored chords are not changed)"
+                >
+                  {keyLabel(e.key)} <span className="muted">{Math.round(e.confidence * 100)}%</span>
+                </button>
+              ))}
+            </div>
+          ) : null}
+
+          <div className="sectionsRow">
+            <div className="fieldLabel">Capo</div>
+            {capo ? (
+              <span className="muted">
+                Capo {capo}: {keyLabel(capoShapeKey(doc.displayKey, capo))} shapes, sounding in{" "}
+                {keyLabel(doc.displayKey)}
+              </span>
+            ) : null}
+            {capoSuggestions.map((s) => (
+              <button
+                key={s.capo}
+                type="button"
+                className={s.capo === capo ? "chip chipActive" : "chip"}
+                onClick={() => setDoc({ ...doc, capo: s.capo || undefined, updatedAt: new Date().toISOString() })}
+                title={`${s.openShapes} of ${s.total} chords are open shapes`}
+              >
+                {s.capo ? `Capo ${s.capo}` : "No capo"}: {keyLabel(s.shapeKey)} shapes{" "}
+                <span className="muted">
+                  {s.openShapes}/{s.total} open
+                </span>
+              </button>
+            ))}
+          </div>
+
+          <PrintVariants
+            variants={doc.printVariants ?? []}
+            docCapo={capo}
+            onChange={(printVariants) =>
+              setDoc({
+                ...doc,
+                printVariants: printVariants.length ? printVariants : undefined,
+                updatedAt: new Date().toISOString(),
+              })
+            }
+            onPrint={(id) =>
+              window.open(`/print?variant=${encodeURIComponent(id)}`, "_blank", "noopener,noreferrer")
+            }
+          />
+
+          {pendingRekey ? (
+            <RekeyPreview
+              fromKey={doc.originalKey}
+              toKey={pendingRekey}
+              keyOptions={rekeyOptions}
+              onKeyChange={setPendingRekey}
+              changes={rekeySections(doc.sections, doc.originalKey, pendingRekey).changes}
+              onApply={() => applyRekey(pendingRekey)}
+              onCancel={() => setPendingRekey(null)}
+            />
+          ) : null}
+
+          {pendingGrid ? (
+            <RescalePreview
+              title={
+                pendingGrid.kind === "subdivision"
+                  ? `Subdivision ${doc.subdivision} → ${pendingGrid.value} cells per beat`
+                  : pendingGrid.kind === "beatUnit"
+                  ? `Beat unit ${doc.timeSignature.beatUnit} → ${pendingGrid.value}: chords stay put; G:2 now counts ${
+                      isCompound({ ...doc.timeSignature, beatUnit: pendingGrid.value }) ? "dotted beats" : "beats"
+                    }`
+                  : `Beats per bar ${doc.timeSignature.beatsPerBar} → ${pendingGrid.value}`
+              }
+              report={gridChangeResult(pendingGrid).report}
+              mode={pendingGrid.kind === "beatsPerBar" ? pendingGrid.mode : undefined}
+              onModeChange={
+                pendingGrid.kind === "beatsPerBar"
+                  ? (mode) => setPendingGrid({ ...pendingGrid, mode })
+                  : undefined
+              }
+              onApply={() => applyGridChange(pendingGrid)}
+              onCancel={() => setPendingGrid(null)}
+            />
+          ) : null}
+
+          {/* Sections */}
+          <div className="sectionsRow">
+            <div className="fieldLabel">Sections</div>
+
+            {doc.sections.map((s) => (
+              <button
+                key={s.id}
+                type="button"
+                onClick={() => selectSection(s.id)}
+                className={s.id === section.id ? "chip chipActive" : "chip"}
+              >
+                {s.name || "Untitled section"}
+              </button>
+            ))}
+
+            <select
+              value=""
+              onChange={(e) => {
+                if (e.target.value) addSection(e.target.value);
+              }}
+            >
+              <option value="">+ Add section…</option>
+              {SECTION_KINDS.map((k) => (
+                <option key={k} value={k}>{k}</option>
+              ))}
+            </select>
+
+            <div className="spacer" />
+
+            <input
+              value={section.name}
+              onChange={(e) => patchSection(section.id, { name: e.target.value })}
+              placeholder="Section name"
+              style={{ width: 160 }}
+            />
+            <div className="inline" title="Pickup (anacrusis) beats before bar 1">
+              <span className="muted">Pickup</span>
+              <input
+                type="number"
+                min={0}
+                step={0.5}
+                value={section.pickupBeats ?? 0}
+                onChange={(e) => setPickup(Number(e.target.value || 0))}
+                style={{ width: 70 }}
+              />
+            </div>
+            <div className="inline" title="Full bars in this section (grows to fit chords and lyric anchors)">
+              <span className="muted">Bars {activeBarCount}</span>
+              <button
+                type="button"
+                onClick={() => setBarCount(activeBarCount - 1)}
+                disabled={activeBarCount <= 1}
+                title="Remove bar"
+              >
+                −
+              </button>
+              <button type="button" onClick={() => setBarCount(activeBarCount + 1)} title="Add bar">
+                +
+              </button>
+            </div>
+            <button
+              type="button"
+              onClick={() => moveActiveSection(-1)}
+              disabled={doc.sections[0]?.id === section.id}
+              title="Move section up"
+            >
+              ↑
+            </button>
+            <button
+              type="button"
+              onClick={() => moveActiveSection(1)}
+              disabled={doc.sections[doc.sections.length - 1]?.id === section.id}
+              title="Move section down"
+            >
+              ↓
+            </button>
+            <button type="button" onClick={duplicateActiveSection}>
+              Duplicate
+            </button>
+            <button type="button" onClick={deleteActiveSection} disabled={doc.sections.length <= 1}>
+              Delete
+            </button>
+          </div>
+
+          {/* Form (roadmap of section references) */}
+          <div className="sectionsRow">
+            <div className="fieldLabel">Form</div>
+
+            {doc.form?.length ? (
+              doc.form.map((entry) => {
+                const s = doc.sections.find((x) => x.id === entry.sectionId);
+                if (!s) return null;
+                const repeat = entry.repeat ?? 1;
+                return (
+                  <button
+                    key={entry.id}
+                    type="button"
+                    onClick={() => {
+                      setSelectedFormEntryId(entry.id);
+                      selectSection(s.id);
+                    }}
+                    className={entry.id === selectedFormEntryId ? "chip chipActive" : "chip"}
+                    title={s.name}
+                  >
+                    {sectionAbbrev(s)}
+                    {repeat > 1 ? ` ×${repeat}` : ""}
+                  </button>
+                );
+              })
+            ) : (
+              <span className="muted">Section order (add a reference to build a form)</span>
+            )}
+
+            <button type="button" onClick={appendActiveSectionToForm} title="Append the current section">
+              + {sectionAbbrev(section)}
+            </button>
+
+            <div className="spacer" />
+
+            {selectedFormEntry ? (
+              <>
+                <button
+                  type="button"
+                  onClick={() => setForm(moveFormEntry(doc.form, selectedFormEntry.id, -1))}
+                  title="Move earlier"
+                >
+                  ←
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setForm(moveFormEntry(doc.form, selectedFormEntry.id, 1))}
+                  title="Move later"
+                >
+                  →
+                </button>
+                <div className="inline">
+                  <span className="muted">×</span>
+                  <input
+                    type="number"
+                    min={1}
+                    value={selectedFormEntry.repeat ?? 1}
+                    onChange={(e) =>
+                      setForm(
+                        setFormEntryRepeat(doc.form, selectedFormEntry.id, Number(e.target.value || 1))
+                      )
+                    }
+                    style={{ width: 70 }}
+                  />
+                </div>
+                <button
+                  type="button"
+                  onClick={() => {
+                    setForm(removeFormEntry(doc.form, selectedFormEntry.id));
+                    setSelectedFormEntryId(null);
+                  }}
+                >
+                  Remove
+                </button>
+              </>
+            ) : null}
+
+            <select
+              value={doc.formLayout ?? "marker"}
+              onChange={(e) =>
+                setDoc({
+                  ...doc,
+                  formLayout: e.target.value as LeadSheetDoc["formLayout"],
+                  updatedAt: new Date().toISOString(),
+                })
+              }
+              title="How repeated sections are laid out"
+            >
+              <option value="marker">Repeats: ×N marker</option>
+              <option value="expand">Repeats: expand</option>
+            </select>
+          </div>
+
           {/* Dock (pinned under settings) */}
           <div className="dockRow">
             {/* Chord tools */}
@@ -417,11 +1296,20 @@ export default function Home() {
                 <div className="dockHeaderLeft">
                   <div className="dockTitle">Chord tools</div>
                   <div className="dockMeta">
-                    Armed: <strong>{armedLabel}</strong> • {recentChords.length ? "1–9 to arm" : "place a chord to start"}
+                    Armed: <strong>{armedLabel}</strong> • {recentChords.length ? "1–9 to arm" : "place a chord to start"} • palette: q–u, ⇧q–u, a–f, z–b
                   </div>
                 </div>
 
                 <div className="dockHeaderRight">
+                  <button
+                    type="button"
+                    onClick={() => armedChord && pinChord(armedChord)}
+                    disabled={!armedChord || armedChord === DELETE_TOOL || armedChord === REST_TOOL}
+                    title="Pin the armed chord to this song's palette"
+                  >
+                    Pin
+                  </button>
+
                   <button
                     type="button"
                     onClick={() => setArmedChord(DELETE_TOOL)}
@@ -432,6 +1320,16 @@ export default function Home() {
                     ⌫ Delete
                   </button>
 
+                  <button
+                    type="button"
+                    onClick={() => setArmedChord(REST_TOOL)}
+                    className={armedChord === REST_TOOL ? "chip chipActive" : "chip"}
+                    style={{ cursor: "pointer" }}
+                    title="Click a beat to place a rest (ends the chord before it)"
+                  >
+                    {REST_GLYPH} Rest
+                  </button>
+
                   <button type="button" onClick={() => setArmedChord(null)} disabled={!armedChord}>
                     Clear
                   </button>
@@ -458,7 +1356,7 @@ export default function Home() {
                             style={{ padding: "6px 10px" }}
                           >
                             <span style={{ opacity: 0.7, marginRight: 6 }}>{i + 1}</span>
-                            {sym}
+                            {chordLabel(sym)}
                           </button>
                         );
                       })
@@ -470,15 +1368,19 @@ export default function Home() {
 
                     <input
                       value={chordQuickInput}
-                      onChange={(e) => setChordQuickInput(e.target.value)}
+                      onChange={(e) => {
+                        setChordQuickInput(e.target.value);
+                        setChordInputError(null);
+                      }}
                       onKeyDown={(e) => {
                         if (e.key === "Enter") armChordFromInput();
                         if (e.key === "Escape") {
                           setChordQuickInput("");
+                          setChordInputError(null);
                           setArmedChord(null);
                         }
                       }}
-                      placeholder="Type chord…"
+                      placeholder={nashville ? "Type chord or number…" : "Type chord…"}
                       className="monoInput"
                       style={{ width: 220 }}
                     />
@@ -487,9 +1389,25 @@ export default function Home() {
                     </button>
                   </div>
 
+                  {chordInputError ? (
+                    <div style={{ marginBottom: 8 }}>
+                      <ParseErrorHint source={chordQuickInput} error={chordInputError} />
+                    </div>
+                  ) : null}
+
+                  <ChordPalette
+                    entries={palette}
+                    pinned={pinnedChords}
+                    armedChord={armedChord}
+                    label={chordLabel}
+                    onArm={setArmedChord}
+                    onUnpin={unpinChord}
+                  />
+
                   <div className="field">
                     <div className="fieldLabel">
-                      Chords (beats) — Enter apply • Esc revert
+                      Chords ({isCompound(doc.timeSignature) ? "dotted beats" : "beats"}) — G:2 C:1.5 •
+                      | G | C D | • (G C):x4 • X:1 rest • N.C. • G{"{>.<U_}"} hits — Enter apply • Esc revert
                     </div>
                     <input
                       value={chordDraft}
@@ -501,6 +1419,9 @@ export default function Home() {
                       className="monoInput"
                       style={{ width: "100%" }}
                     />
+                    {chordDraftError && chordDraftError.source === chordDraft ? (
+                      <ParseErrorHint source={chordDraft} error={chordDraftError.error} />
+                    ) : null}
                   </div>
                 </div>
               ) : null}
@@ -510,7 +1431,7 @@ export default function Home() {
             <div className="dockPanel">
               <div className="dockHeader">
                 <div className="dockHeaderLeft">
-                  <div className="dockTitle">Lyrics</div>
+                  <div className="dockTitle">Lyrics — {section.name}</div>
                   <div className="dockMeta">
                     {lyricsSummary} • Anchors: <strong>{section.anchors.length}</strong>
                   </div>
@@ -540,6 +1461,8 @@ export default function Home() {
                     Workflow: <strong>Click word under bars → click beat above</strong>
                     {armedChord === DELETE_TOOL ? (
                       <> • Delete: <strong>click beat to remove chord</strong></>
+                    ) : armedChord === REST_TOOL ? (
+                      <> • Rest: <strong>click beat to place a rest</strong></>
                     ) : armedChord ? (
                       <> • Chord: <strong>{armedChord}</strong> armed</>
                     ) : selectedCharIndex !== null ? (
@@ -557,18 +1480,97 @@ export default function Home() {
 
       {/* ONLY the grid scrolls now */}
       <div className="content">
-        <LeadSheetGrid
-          mode="editor"
-          chords={displayChords}
-          timeSignature={doc.timeSignature}
-          subdivision={doc.subdivision}
-          lyrics={section.lyrics}
-          anchors={section.anchors}
-          selectedCharIndex={selectedCharIndex}
-          onSelectCharIndex={setSelectedCharIndex}
-          onBeatClick={onBeatClick}
-          barsPerSystem={3}
-        />
+        {selectedBar && selectedBarSection ? (
+          <div style={{ position: "sticky", top: 0, zIndex: 20, marginBottom: 14 }}>
+            <BarEditor
+              title={`${selectedBarSection.name} — ${
+                selectedBarTable[selectedBar.barIndex]?.pickup
+                  ? "Pickup"
+                  : `Bar ${selectedBarTable[selectedBar.barIndex]?.number ?? selectedBar.barIndex + 1}`
+              }`}
+              timeSignature={meterAtBar(
+                selectedBar.barIndex,
+                doc.timeSignature,
+                selectedBarSection.meterChanges
+              )}
+              onTimeSignatureChange={(ts) =>
+                patchSection(selectedBarSection.id, {
+                  meterChanges: setMeterChange({
+                    meterChanges: selectedBarSection.meterChanges,
+                    barIndex: selectedBar.barIndex,
+                    timeSignature: ts,
+                    docTimeSignature: doc.timeSignature,
+                  }),
+                })
+              }
+              tuplets={(selectedBarSection.tuplets ?? []).filter((t) => t.barIndex === selectedBar.barIndex)}
+              onTupletChange={(beat, divisions) =>
+                patchSection(selectedBarSection.id, {
+                  tuplets: setTuplet(selectedBarSection.tuplets, selectedBar.barIndex, beat, divisions),
+                })
+              }
+              onBarEdit={(op, count) => editBars(selectedBarSection, selectedBar.barIndex, op, count)}
+              navigation={selectedBarSection.navigation?.find((n) => n.barIndex === selectedBar.barIndex)}
+              onChange={(patch) =>
+                patchSection(selectedBarSection.id, {
+                  navigation: setBarNavigation(selectedBarSection.navigation, selectedBar.barIndex, patch),
+                })
+              }
+              playOrder={expandPlayOrder(
+                selectedBarTable.length,
+                selectedBarSection.navigation
+              )}
+              onClose={() => setSelectedBar(null)}
+            />
+          </div>
+        ) : null}
+
+        <div className="sectionStack">
+          {formItems.map((item) => {
+            const s = item.section;
+            const isActive = s.id === section.id;
+
+            return (
+              <div key={item.key} className={isActive ? "sectionBlock sectionBlockActive" : "sectionBlock"}>
+                <button
+                  type="button"
+                  className="sectionHeading"
+                  onClick={() => {
+                    setSelectedFormEntryId(item.entryId);
+                    selectSection(s.id);
+                  }}
+                >
+                  {formItemHeading(item, doc.formLayout)}
+                </button>
+
+                <LeadSheetGrid
+                  mode="editor"
+                  chords={gridChordsBySection.get(s.id) ?? s.chords}
+                  timeSignature={doc.timeSignature}
+                  subdivision={doc.subdivision}
+                  lyrics={s.lyrics}
+                  anchors={s.anchors}
+                  navigation={s.navigation}
+                  meterChanges={s.meterChanges}
+                  pickupBeats={s.pickupBeats}
+                  tuplets={s.tuplets}
+                  barCount={s.barCount}
+                  analysis={analysisBySection.get(s.id)}
+                  durationStyle={doc.durationStyle}
+                  selectedCharIndex={isActive ? selectedCharIndex : null}
+                  onSelectCharIndex={(charIndex) => {
+                    selectSection(s.id);
+                    setSelectedCharIndex(charIndex);
+                  }}
+                  onBeatClick={(pos) => onBeatClick(s.id, pos)}
+                  selectedBarIndex={selectedBar?.sectionId === s.id ? selectedBar.barIndex : null}
+                  onBarClick={(barIndex) => selectBar(s.id, barIndex)}
+                  barsPerSystem={3}
+                />
+              </div>
+            );
+          })}
+        </div>
       </div>
     </div>
   );
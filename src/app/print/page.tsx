@@ -2,9 +2,21 @@
 "use client";
 
 import { useEffect, useMemo, useState } from "react";
-import type { LeadSheetDoc, ChordEvent } from "@/lib/types";
+import type { LeadSheetDoc } from "@/lib/types";
 import { LeadSheetGrid } from "@/components/LeadSheetGrid";
-import { semitoneDelta, transposeChordSymbol, KEY_TO_STYLE } from "@/lib/transpose";
+import { semitoneDelta, transposeChordEvents } from "@/lib/transpose";
+import { keyLabel } from "@/lib/keys";
+import { nashvilleChordEvents } from "@/lib/chords/nashville";
+import { analyzeChordEvents } from "@/lib/chords/analysis";
+import { capoChordEvents, capoShapeKey } from "@/lib/capo";
+import {
+  INSTRUMENTS,
+  instrumentChordEvents,
+  instrumentInfo,
+  writtenKey,
+  type Instrument,
+} from "@/lib/instruments";
+import { formItemHeading, formRoadmap, resolveForm } from "@/lib/form";
 
 import styles from "./print.module.css";
 
@@ -15,10 +27,23 @@ const PRINT_BAR_WIDTH_PX = 250;
 const PRINT_GAP_PX = 10;
 const PRINT_BARS_PER_SYSTEM = 3;
 
+// One printed document: the doc as-is, a print variant, or one instrument's part.
+type PrintPart = {
+  name?: string;
+  capo: number;
+  instrument?: Instrument;
+};
+
 export default function PrintPage() {
   const [doc, setDoc] = useState<LeadSheetDoc | null>(null);
+  const [query, setQuery] = useState<{ variant: string | null; allParts: boolean }>({
+    variant: null,
+    allParts: false,
+  });
 
   useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    setQuery({ variant: params.get("variant"), allParts: params.get("parts") === "all" });
     try {
       const raw = localStorage.getItem(STORAGE_KEY);
       if (!raw) return;
@@ -29,29 +54,18 @@ export default function PrintPage() {
     }
   }, []);
 
-  const section = doc?.sections?.[0];
-
-  const delta = useMemo(() => {
-    if (!doc) return 0;
-    return semitoneDelta(doc.originalKey, doc.displayKey);
-  }, [doc]);
-
-  const accStyle = doc ? KEY_TO_STYLE[doc.displayKey] ?? "sharps" : "sharps";
+  const parts = useMemo((): PrintPart[] => {
+    if (!doc) return [];
+    if (query.allParts) {
+      return INSTRUMENTS.map((i) => ({ name: i.label, capo: 0, instrument: i.id }));
+    }
 
-  const displayChords: ChordEvent[] = useMemo(() => {
-    if (!doc || !section) return [];
-    if (delta === 0) return section.chords;
-    return section.chords.map((c) => ({
-      ...c,
-      symbol: transposeChordSymbol(c.symbol, delta, accStyle),
-    }));
-  }, [doc, section, delta, accStyle]);
+    const variant = doc.printVariants?.find((v) => v.id === query.variant);
+    if (!variant) return [{ capo: doc.capo ?? 0 }];
+    return [{ name: variant.name, capo: variant.capo ?? doc.capo ?? 0, instrument: variant.instrument }];
+  }, [doc, query]);
 
-  const systemWidthPx =
-    PRINT_BARS_PER_SYSTEM * PRINT_BAR_WIDTH_PX +
-    (PRINT_BARS_PER_SYSTEM - 1) * PRINT_GAP_PX;
-
-  if (!doc || !section) {
+  if (!doc || !doc.sections.length) {
     return (
       <main className={styles.page}>
         <div className={styles.sheet}>
@@ -71,29 +85,90 @@ export default function PrintPage() {
 
   return (
     <main className={styles.page}>
-      <div className={styles.sheet}>
-        <div className={styles.printFrame}>
-          {/* Center header to match centered systems */}
-          <div
-            className={styles.header}
-            style={{
-              width: systemWidthPx,
-              maxWidth: "100%",
-              margin: "0 auto",
-            }}
-          >
-            <div className={styles.title}>
-              {doc.title || "Untitled"}{" "}
-              <span className={styles.meta}>
-                — {doc.displayKey} (orig {doc.originalKey}, +{delta})
-              </span>
-            </div>
-
-            <div className={styles.meta}>
-              {doc.timeSignature.beatsPerBar}/{doc.timeSignature.beatUnit}
-            </div>
+      {parts.map((part, i) => (
+        <PartSheet key={part.instrument ?? i} doc={doc} part={part} showControls={i === 0} />
+      ))}
+    </main>
+  );
+}
+
+function PartSheet(props: { doc: LeadSheetDoc; part: PrintPart; showControls: boolean }) {
+  const { doc, part, showControls } = props;
+  const { capo, instrument } = part;
+
+  const delta = useMemo(() => semitoneDelta(doc.originalKey, doc.displayKey), [doc]);
+
+  // Transposing instruments read in their written key; the concert key stays the reference.
+  const transposing = instrumentInfo(instrument).semitones !== 0;
+  const partKey = writtenKey(doc.displayKey, instrument);
+  const useCapo = !!capo && !transposing && doc.chordDisplay !== "nashville";
+
+  const displayItems = useMemo(() => {
+    return resolveForm(doc).map((item) => {
+      const concert = transposeChordEvents(item.section.chords, {
+        fromKey: doc.originalKey,
+        toKey: doc.displayKey,
+        spelling: doc.spelling,
+      });
+      const chords = instrumentChordEvents(concert, doc.displayKey, instrument, doc.spelling);
+      return {
+        ...item,
+        analysis: doc.printAnalysis ? analyzeChordEvents(chords, partKey) : undefined,
+        section: {
+          ...item.section,
+          chords:
+            doc.chordDisplay === "nashville"
+              ? nashvilleChordEvents(chords, partKey)
+              : useCapo
+              ? capoChordEvents(chords, doc.displayKey, capo, doc.spelling)
+              : chords,
+        },
+      };
+    });
+  }, [doc, instrument, partKey, useCapo, capo]);
+
+  const systemWidthPx =
+    PRINT_BARS_PER_SYSTEM * PRINT_BAR_WIDTH_PX +
+    (PRINT_BARS_PER_SYSTEM - 1) * PRINT_GAP_PX;
+
+  return (
+    <div className={styles.sheet}>
+      <div className={styles.printFrame}>
+        {/* Center header to match centered systems */}
+        <div
+          className={styles.header}
+          style={{
+            width: systemWidthPx,
+            maxWidth: "100%",
+            margin: "0 auto",
+          }}
+        >
+          <div className={styles.title}>
+            {doc.title || "Untitled"}{" "}
+            <span className={styles.meta}>
+              {transposing
+                ? `— ${keyLabel(partKey)} (concert ${keyLabel(doc.displayKey)})`
+                : `— ${keyLabel(doc.displayKey)} (orig ${keyLabel(doc.originalKey)}, +${delta})`}
+            </span>
           </div>
 
+          <div className={styles.meta}>
+            {part.name ? `${part.name} • ` : null}
+            {doc.timeSignature.beatsPerBar}/{doc.timeSignature.beatUnit}
+            {useCapo ? ` • Capo ${capo} (${keyLabel(capoShapeKey(doc.displayKey, capo))} shapes)` : null}
+            {capo && transposing ? ` • Capo ${capo} not applied (written-key part)` : null}
+            {doc.swing ? " • Swing 8ths" : null}
+            {doc.chordDisplay === "nashville" ? ` • Numbers in ${keyLabel(partKey)}` : null}
+          </div>
+        </div>
+
+        {doc.form?.length ? (
+          <div className={styles.roadmap} style={{ width: systemWidthPx, maxWidth: "100%", margin: "0 auto" }}>
+            Form: {formRoadmap(doc)}
+          </div>
+        ) : null}
+
+        {showControls ? (
           <div className={styles.controls}>
             <button type="button" onClick={() => window.print()}>
               Print…
@@ -102,21 +177,34 @@ export default function PrintPage() {
               Close
             </button>
           </div>
-
-          <LeadSheetGrid
-            mode="print"
-            chords={displayChords}
-            timeSignature={doc.timeSignature}
-            subdivision={doc.subdivision}
-            lyrics={section.lyrics}
-            anchors={section.anchors}
-            selectedCharIndex={null}
-            onSelectCharIndex={() => {}}
-            onBeatClick={() => {}}
-            barsPerSystem={PRINT_BARS_PER_SYSTEM}
-          />
-        </div>
+        ) : null}
+
+        {displayItems.map((item) => (
+          <section key={item.key} className={styles.section}>
+            <div className={styles.sectionHeading}>{formItemHeading(item, doc.formLayout)}</div>
+
+            <LeadSheetGrid
+              mode="print"
+              chords={item.section.chords}
+              timeSignature={doc.timeSignature}
+              subdivision={doc.subdivision}
+              lyrics={item.section.lyrics}
+              anchors={item.section.anchors}
+              navigation={item.section.navigation}
+              meterChanges={item.section.meterChanges}
+              pickupBeats={item.section.pickupBeats}
+              tuplets={item.section.tuplets}
+              barCount={item.section.barCount}
+              analysis={item.analysis}
+              durationStyle={doc.durationStyle}
+              selectedCharIndex={null}
+              onSelectCharIndex={() => {}}
+              onBeatClick={() => {}}
+              barsPerSystem={PRINT_BARS_PER_SYSTEM}
+            />
+          </section>
+        ))}
       </div>
-    </main>
+    </div>
   );
 }
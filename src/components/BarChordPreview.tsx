@@ -1,5 +1,6 @@
 import React from "react";
 import type { ChordEvent, TimeSignature } from "@/lib/types";
+import { REST_GLYPH } from "@/lib/chords/format";
 
 type Props = {
   chords: ChordEvent[];
@@ -43,7 +44,7 @@ export function BarChordPreview({ chords, timeSignature, subdivision, onBeatClic
       const beats = durCells / subdivision;
 
       return {
-        symbol: c.symbol,
+        symbol: c.kind === "rest" ? REST_GLYPH : c.symbol,
         startCellInBar: start - barStart,
         beats,
       };
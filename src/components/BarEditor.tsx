@@ -0,0 +1,212 @@
+// src/components/BarEditor.tsx
+import React, { useState } from "react";
+import type { BarNavigation, NavigationJump, TimeSignature, TupletSpan } from "@/lib/types";
+import { CODA_GLYPH, SEGNO_GLYPH } from "@/lib/navigation";
+
+const JUMPS: NavigationJump[] = [
+  "D.C.",
+  "D.C. al Fine",
+  "D.C. al Coda",
+  "D.S.",
+  "D.S. al Fine",
+  "D.S. al Coda",
+];
+
+const BEAT_UNITS = [2, 4, 8, 16];
+
+export type BarEditOp = "insertBefore" | "insertAfter" | "duplicate" | "delete";
+
+const TUPLETS: { divisions: number; label: string }[] = [
+  { divisions: 0, label: "Straight" },
+  { divisions: 3, label: "Triplet" },
+  { divisions: 5, label: "Quintuplet" },
+  { divisions: 6, label: "Sextuplet" },
+];
+
+export function BarEditor(props: {
+  title: string;
+
+  // Meter in effect for this bar; changing it adds a meter change from this bar on.
+  timeSignature: TimeSignature;
+  onTimeSignatureChange: (ts: TimeSignature) => void;
+
+  // Tuplet spans of this bar only; `beat` undefined = the whole bar.
+  tuplets: TupletSpan[];
+  onTupletChange: (beat: number | undefined, divisions: number) => void;
+
+  // Timeline edits on `count` bars starting at this one (later bars ripple).
+  onBarEdit: (op: BarEditOp, count: number) => void;
+
+  navigation: BarNavigation | undefined;
+  onChange: (patch: Partial<Omit<BarNavigation, "barIndex">>) => void;
+  playOrder: number[]; // 0-based bar indices
+  onClose: () => void;
+}) {
+  const {
+    title,
+    timeSignature,
+    onTimeSignatureChange,
+    tuplets,
+    onTupletChange,
+    onBarEdit,
+    navigation: n,
+    onChange,
+    playOrder,
+    onClose,
+  } = props;
+
+  const [tupletBeat, setTupletBeat] = useState<number | undefined>(undefined);
+  const tupletDivisions = tuplets.find((t) => t.beat === tupletBeat)?.divisions ?? 0;
+  const [editCount, setEditCount] = useState(1);
+
+  function toggle(key: "repeatStart" | "repeatEnd" | "segno" | "coda" | "toCoda" | "fine") {
+    onChange({ [key]: !n?.[key] });
+  }
+
+  function toggleVolta(ending: number) {
+    const cur = n?.volta ?? [];
+    const next = cur.includes(ending)
+      ? cur.filter((x) => x !== ending)
+      : [...cur, ending].sort((a, b) => a - b);
+    onChange({ volta: next.length ? next : undefined });
+  }
+
+  function chip(active: boolean | undefined, label: string, onClick: () => void, title?: string) {
+    return (
+      <button
+        type="button"
+        onClick={onClick}
+        className={active ? "chip chipActive" : "chip"}
+        title={title}
+      >
+        {label}
+      </button>
+    );
+  }
+
+  return (
+    <div className="card" style={{ display: "grid", gap: 8, padding: 10 }}>
+      <div className="row" style={{ gap: 8 }}>
+        <strong style={{ fontSize: 13 }}>{title}</strong>
+
+        <div className="inline" title="Time signature from this bar on">
+          <input
+            type="number"
+            min={1}
+            value={timeSignature.beatsPerBar}
+            onChange={(e) =>
+              onTimeSignatureChange({
+                ...timeSignature,
+                beatsPerBar: Math.max(1, Number(e.target.value || timeSignature.beatsPerBar)),
+              })
+            }
+            style={{ width: 64 }}
+          />
+          <span className="muted">/</span>
+          <select
+            value={timeSignature.beatUnit}
+            onChange={(e) => onTimeSignatureChange({ ...timeSignature, beatUnit: Number(e.target.value) })}
+          >
+            {BEAT_UNITS.map((u) => (
+              <option key={u} value={u}>{u}</option>
+            ))}
+          </select>
+        </div>
+
+        <div className="inline" title="Tuplet grid for the whole bar or one beat">
+          <select
+            value={tupletBeat ?? ""}
+            onChange={(e) => setTupletBeat(e.target.value === "" ? undefined : Number(e.target.value))}
+          >
+            <option value="">Whole bar</option>
+            {Array.from({ length: timeSignature.beatsPerBar }, (_, beat) => (
+              <option key={beat} value={beat}>Beat {beat + 1}</option>
+            ))}
+          </select>
+          <select
+            value={tupletDivisions}
+            onChange={(e) => onTupletChange(tupletBeat, Number(e.target.value))}
+          >
+            {TUPLETS.map((t) => (
+              <option key={t.divisions} value={t.divisions}>{t.label}</option>
+            ))}
+          </select>
+        </div>
+
+        {chip(n?.repeatStart, "|:", () => toggle("repeatStart"), "Start repeat")}
+        {chip(n?.repeatEnd, ":|", () => toggle("repeatEnd"), "End repeat")}
+        {n?.repeatEnd ? (
+          <div className="inline">
+            <span className="muted">passes</span>
+            <input
+              type="number"
+              min={2}
+              value={n.repeatTimes ?? 2}
+              onChange={(e) => onChange({ repeatTimes: Math.max(2, Number(e.target.value || 2)) })}
+              style={{ width: 64 }}
+            />
+          </div>
+        ) : null}
+
+        {[1, 2, 3].map((ending) =>
+          chip(n?.volta?.includes(ending), `${ending}.`, () => toggleVolta(ending), `Ending ${ending}`)
+        )}
+
+        {chip(n?.segno, `${SEGNO_GLYPH} Segno`, () => toggle("segno"))}
+        {chip(n?.coda, `${CODA_GLYPH} Coda`, () => toggle("coda"), "Coda starts at this bar")}
+        {chip(n?.toCoda, `To ${CODA_GLYPH}`, () => toggle("toCoda"), "Leave for the Coda after this bar")}
+        {chip(n?.fine, "Fine", () => toggle("fine"))}
+
+        <select
+          value={n?.jump ?? ""}
+          onChange={(e) => onChange({ jump: (e.target.value || undefined) as NavigationJump | undefined })}
+          title="Jump at the end of this bar"
+        >
+          <option value="">No jump</option>
+          {JUMPS.map((j) => (
+            <option key={j} value={j}>{j}</option>
+          ))}
+        </select>
+
+        <div className="spacer" />
+
+        <button type="button" onClick={onClose}>
+          Done
+        </button>
+      </div>
+
+      <div className="row" style={{ gap: 8 }}>
+        <div className="inline" title="Number of bars for the edits below">
+          <input
+            type="number"
+            min={1}
+            value={editCount}
+            onChange={(e) => setEditCount(Math.max(1, Number(e.target.value || 1)))}
+            style={{ width: 64 }}
+          />
+          <span className="muted">bar(s)</span>
+        </div>
+        <button type="button" onClick={() => onBarEdit("insertBefore", editCount)}>
+          Insert before
+        </button>
+        <button type="button" onClick={() => onBarEdit("insertAfter", editCount)}>
+          Insert after
+        </button>
+        <button
+          type="button"
+          onClick={() => onBarEdit("duplicate", editCount)}
+          title="Copy from this bar on, right after the range"
+        >
+          Duplicate
+        </button>
+        <button type="button" onClick={() => onBarEdit("delete", editCount)} title="Delete from this bar on">
+          Delete
+        </button>
+      </div>
+
+      <div className="muted">
+        Play order: {playOrder.map((i) => i + 1).join(" ")}
+      </div>
+    </div>
+  );
+}
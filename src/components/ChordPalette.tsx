@@ -0,0 +1,99 @@
+// src/components/ChordPalette.tsx
+import React from "react";
+import { PALETTE_GROUP_LABELS, type PaletteEntry, type PaletteGroup } from "@/lib/chords/palette";
+
+// Keyboard rows per group: triads on q–u, sevenths on Shift+q–u, borrowed on a–f,
+// inversions on z–b. Pinned chords use Shift+1–9.
+const GROUP_KEYS: Record<PaletteGroup, string[]> = {
+  triads: ["q", "w", "e", "r", "t", "y", "u"],
+  sevenths: ["Q", "W", "E", "R", "T", "Y", "U"],
+  borrowed: ["a", "s", "d", "f"],
+  inversions: ["z", "x", "c", "v", "b"],
+};
+
+const GROUPS: PaletteGroup[] = ["triads", "sevenths", "borrowed", "inversions"];
+
+/**
+ * Shortcut key (as `KeyboardEvent.key`) → palette entry.
+ */
+export function paletteKeyMap(entries: PaletteEntry[]): Map<string, PaletteEntry> {
+  const out = new Map<string, PaletteEntry>();
+  for (const group of GROUPS) {
+    entries
+      .filter((e) => e.group === group)
+      .forEach((e, i) => {
+        const key = GROUP_KEYS[group][i];
+        if (key) out.set(key, e);
+      });
+  }
+  return out;
+}
+
+function keyHint(key: string) {
+  return key === key.toUpperCase() ? `⇧${key}` : key;
+}
+
+export function ChordPalette(props: {
+  entries: PaletteEntry[];
+  pinned: string[]; // display symbols
+  armedChord: string | null;
+  label: (displaySymbol: string) => string;
+  onArm: (displaySymbol: string) => void;
+  onUnpin: (index: number) => void;
+}) {
+  const { entries, pinned, armedChord, label, onArm, onUnpin } = props;
+  const keys = paletteKeyMap(entries);
+  const keyOf = (e: PaletteEntry) => Array.from(keys).find(([, x]) => x === e)?.[0];
+
+  return (
+    <div style={{ display: "grid", gap: 6, marginBottom: 8 }}>
+      {pinned.length ? (
+        <div className="row" style={{ gap: 6 }}>
+          <div className="fieldLabel" style={{ width: 80 }}>Pinned</div>
+          {pinned.map((sym, i) => (
+            <span key={`${sym}-${i}`} className="inline" style={{ gap: 2 }}>
+              <button
+                type="button"
+                onClick={() => onArm(sym)}
+                className={sym === armedChord ? "chip chipActive" : "chip"}
+                title={i < 9 ? `Press Shift+${i + 1} to select` : undefined}
+              >
+                {i < 9 ? <span style={{ opacity: 0.7, marginRight: 6 }}>⇧{i + 1}</span> : null}
+                {label(sym)}
+              </button>
+              <button type="button" className="chip" onClick={() => onUnpin(i)} title="Unpin">
+                ×
+              </button>
+            </span>
+          ))}
+        </div>
+      ) : null}
+
+      {GROUPS.map((group) => {
+        const inGroup = entries.filter((e) => e.group === group);
+        if (!inGroup.length) return null;
+
+        return (
+          <div key={group} className="row" style={{ gap: 6 }}>
+            <div className="fieldLabel" style={{ width: 80 }}>{PALETTE_GROUP_LABELS[group]}</div>
+            {inGroup.map((e) => {
+              const key = keyOf(e);
+              return (
+                <button
+                  key={`${group}-${e.symbol}`}
+                  type="button"
+                  onClick={() => onArm(e.symbol)}
+                  className={e.symbol === armedChord ? "chip chipActive" : "chip"}
+                  title={key ? `${e.numeral} • press ${keyHint(key)}` : e.numeral}
+                >
+                  {key ? <span style={{ opacity: 0.7, marginRight: 6 }}>{keyHint(key)}</span> : null}
+                  {label(e.symbol)}
+                </button>
+              );
+            })}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
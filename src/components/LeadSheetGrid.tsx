@@ -1,6 +1,18 @@
 // src/components/LeadSheetGrid.tsx
 import React, { useMemo } from "react";
-import type { ChordEvent, LyricAnchor, TimeSignature } from "@/lib/types";
+import type {
+  BarNavigation,
+  ChordEvent,
+  DurationStyle,
+  LyricAnchor,
+  MeterChange,
+  TimeSignature,
+  TupletSpan,
+} from "@/lib/types";
+import { barCellsFor, buildBars, sectionBarTable, type BarModel } from "@/lib/bars";
+import { systemWidthPx } from "@/lib/geometry/cellToX";
+import type { GridPos } from "@/lib/timeline";
+import type { RomanAnalysis } from "@/lib/chords/analysis";
 
 import { tokenizeAllLyrics, type LyricToken } from "@/lib/lyrics/tokens";
 import { layoutOnlyBetweenAnchors } from "@/lib/lyrics/layout";
@@ -31,17 +43,6 @@ function toSystemToken(t: LyricToken): Token {
   };
 }
 
-type Segment = {
-  symbol: string;
-  startCellInBar: number;
-  beats: number;
-};
-
-type BarModel = {
-  barIndex: number;
-  segments: Segment[];
-};
-
 export function LeadSheetGrid(props: {
   mode?: "editor" | "print";
 
@@ -51,10 +52,20 @@ export function LeadSheetGrid(props: {
 
   lyrics: string;
   anchors: LyricAnchor[];
+  navigation?: BarNavigation[];
+  meterChanges?: MeterChange[];
+  pickupBeats?: number;
+  tuplets?: TupletSpan[];
+  barCount?: number;
+  analysis?: Map<string, RomanAnalysis>; // by chord id
+  durationStyle?: DurationStyle;
 
   selectedCharIndex: number | null;
   onSelectCharIndex: (charIndex: number) => void;
-  onBeatClick: (absoluteCell: number) => void;
+  onBeatClick: (pos: GridPos) => void;
+
+  selectedBarIndex?: number | null;
+  onBarClick?: (barIndex: number) => void;
 
   barsPerSystem?: number;
 }) {
@@ -65,56 +76,48 @@ export function LeadSheetGrid(props: {
     subdivision,
     lyrics,
     anchors,
+    navigation,
+    meterChanges,
+    pickupBeats,
+    tuplets,
+    barCount,
+    analysis,
+    durationStyle,
     selectedCharIndex,
     onSelectCharIndex,
     onBeatClick,
+    selectedBarIndex = null,
+    onBarClick,
     barsPerSystem = 3,
   } = props;
 
   const isPrint = mode === "print";
 
-  const beatsPerBar = timeSignature.beatsPerBar;
-  const barCells = beatsPerBar * subdivision;
+  // Bar widths are proportional to bar length; these are the widths of a bar in the doc meter.
+  const barCells = barCellsFor(timeSignature, subdivision);
 
   // Editor geometry (source-of-truth for deriving implicit token positions)
   const editorBarWidthPx = 520;
   const editorGapPx = 16;
+  const editorCellWidthPx = editorBarWidthPx / barCells;
 
   // Print geometry (render-only)
   const printBarWidthPx = 250;
   const printGapPx = 10;
+  const printCellWidthPx = printBarWidthPx / barCells;
 
   const bars: BarModel[] = useMemo(() => {
-    if (barCells <= 0) return [];
-
-    const sorted = [...chords]
-      .filter((c) => Number.isFinite(c.cell) && c.cell >= 0)
-      .sort((a, b) => a.cell - b.cell);
-
-    const lastCell = sorted.length ? sorted[sorted.length - 1].cell : 0;
-    const totalBars = Math.max(1, Math.floor(lastCell / barCells) + 1);
-
-    const out: BarModel[] = [];
-
-    for (let barIndex = 0; barIndex < totalBars; barIndex++) {
-      const barStart = barIndex * barCells;
-      const barEnd = barStart + barCells;
-
-      const inBar = sorted.filter((c) => c.cell >= barStart && c.cell < barEnd);
-
-      const segments: Segment[] = inBar.map((c, i) => {
-        const start = c.cell;
-        const nextStart = i + 1 < inBar.length ? inBar[i + 1].cell : barEnd;
-        const durCells = Math.max(0, Math.min(nextStart, barEnd) - start);
-        const beats = durCells / subdivision;
-        return { symbol: c.symbol, startCellInBar: start - barStart, beats };
-      });
-
-      out.push({ barIndex, segments });
-    }
-
-    return out;
-  }, [chords, barCells, subdivision]);
+    const table = sectionBarTable({
+      chords,
+      anchors,
+      timeSignature,
+      subdivision,
+      meterChanges,
+      pickupBeats,
+      barCount,
+    });
+    return buildBars({ chords, table, subdivision, navigation });
+  }, [chords, anchors, timeSignature, subdivision, meterChanges, pickupBeats, barCount, navigation]);
 
   const systems = useMemo(() => {
     const out: BarModel[][] = [];
@@ -126,12 +129,13 @@ export function LeadSheetGrid(props: {
 
   const systemsTiming = useMemo(() => {
     return systems.map((systemBars) => {
-      const firstBarIndex = systemBars[0]?.barIndex ?? 0;
-      const startCell = firstBarIndex * barCells;
-      const endCell = startCell + systemBars.length * barCells;
+      const first = systemBars[0];
+      const last = systemBars[systemBars.length - 1];
+      const startCell = first?.startCell ?? 0;
+      const endCell = last ? last.startCell + last.cells : startCell;
       return { startCell, endCell };
     });
-  }, [systems, barCells]);
+  }, [systems]);
 
   const lyricTokens = useMemo(() => tokenizeAllLyrics(lyrics), [lyrics]);
 
@@ -139,21 +143,21 @@ export function LeadSheetGrid(props: {
     return buildAnchorsBySystem({ anchors, systemsTiming });
   }, [anchors, systemsTiming]);
 
-  // NOTE: chunking is based on a system width.
+  // NOTE: chunking is based on system widths.
   // For print, we want the SAME chunking decisions as editor so we don't move tokens to different systems.
-  const editorSystemWidthPx = useMemo(() => {
-    return barsPerSystem * editorBarWidthPx + (barsPerSystem - 1) * editorGapPx;
-  }, [barsPerSystem]);
+  const editorSystemWidthsPx = useMemo(() => {
+    return systems.map((systemBars) => systemWidthPx(systemBars, editorCellWidthPx, editorGapPx));
+  }, [systems, editorCellWidthPx]);
 
   const initialTokenChunks = useMemo(() => {
     return chunkTokensForwardOnly({
       tokens: lyricTokens,
       anchors,
       systems: systemsTiming,
-      systemWidthPx: editorSystemWidthPx,
+      systemWidthsPx: editorSystemWidthsPx,
       subdivision,
     });
-  }, [lyricTokens, anchors, systemsTiming, editorSystemWidthPx, subdivision]);
+  }, [lyricTokens, anchors, systemsTiming, editorSystemWidthsPx, subdivision]);
 
   const tokenChunks = useMemo(() => {
     return reflowOverflowAcrossSystems({
@@ -161,17 +165,18 @@ export function LeadSheetGrid(props: {
       anchorsBySystem,
       systemsTiming,
       subdivision,
-      systemWidthPx: editorSystemWidthPx,
+      systemWidthsPx: editorSystemWidthsPx,
     });
-  }, [initialTokenChunks, anchorsBySystem, systemsTiming, subdivision, editorSystemWidthPx]);
+  }, [initialTokenChunks, anchorsBySystem, systemsTiming, subdivision, editorSystemWidthsPx]);
 
   // Compute editor laidOutPx ALWAYS (even for print) so print can inherit it.
   const editorLayouts = useMemo(() => {
     return systems.map((systemBars, sysIdx) => {
       const tokens = tokenChunks[sysIdx] ?? [];
-      const systemStartCell = systemsTiming[sysIdx]?.startCell ?? 0;
+      const timing = systemsTiming[sysIdx] ?? { startCell: 0, endCell: 0 };
+      const systemStartCell = timing.startCell;
 
-      const systemBeats = (systemBars.length * barCells) / subdivision;
+      const systemBeats = (timing.endCell - timing.startCell) / subdivision;
 
       const laidOutPx = layoutOnlyBetweenAnchors({
         tokens,
@@ -179,16 +184,16 @@ export function LeadSheetGrid(props: {
         systemStartCell,
         systemBeats,
         subdivision,
-        systemWidthPx: editorSystemWidthPx,
+        systemWidthPx: editorSystemWidthsPx[sysIdx] ?? 0,
       });
 
       return { tokens, laidOutPx, systemStartCell, systemBars };
     });
-  }, [systems, tokenChunks, systemsTiming, anchorsBySystem, subdivision, editorSystemWidthPx, barCells]);
+  }, [systems, tokenChunks, systemsTiming, anchorsBySystem, subdivision, editorSystemWidthsPx]);
 
   // Convert editor px positions -> implicit cell positions for print
   const printLayouts = useMemo(() => {
-    const pxPerCell = barCells > 0 ? editorBarWidthPx / barCells : 1;
+    const pxPerCell = editorCellWidthPx > 0 ? editorCellWidthPx : 1;
 
     return editorLayouts.map((l) => {
       const laidOutCells = l.laidOutPx.map(({ token, x }: any) => ({
@@ -197,7 +202,7 @@ export function LeadSheetGrid(props: {
       }));
       return { ...l, laidOutCells };
     });
-  }, [editorLayouts, barCells]);
+  }, [editorLayouts, editorCellWidthPx]);
 
   return (
     <div style={{ display: "grid", gap: isPrint ? 18 : 18 }}>
@@ -213,22 +218,20 @@ export function LeadSheetGrid(props: {
               systemBars={systemBars}
               timeSignature={timeSignature}
               subdivision={subdivision}
-              barCells={barCells}
-              beatsPerBar={beatsPerBar}
-              systemStartCell={lPrint.systemStartCell}
-              barWidthPx={printBarWidthPx}
+              cellWidthPx={printCellWidthPx}
               gapPx={printGapPx}
               lyrics={lyrics}
               tokens={lPrint.tokens}
               laidOutCells={lPrint.laidOutCells}
+              tuplets={tuplets}
               anchors={anchors}
+              analysis={analysis}
+              durationStyle={durationStyle}
             />
           );
         }
 
         // editor mode: keep existing SystemView path
-        const systemWidthPx =
-          barsPerSystem * editorBarWidthPx + (barsPerSystem - 1) * editorGapPx;
 
         // SystemView expects its own Token/LaidOutToken shapes.
         // We keep LyricToken for the lyrics pipeline (chunking/layout/print),
@@ -248,18 +251,20 @@ export function LeadSheetGrid(props: {
             mode="editor"
             systemIndex={sysIdx}
             systemBars={systemBars}
-            timeSignature={timeSignature}
             subdivision={subdivision}
-            barCells={barCells}
-            beatsPerBar={beatsPerBar}
-            systemWidthPx={systemWidthPx}
-            barWidthPx={editorBarWidthPx}
+            systemWidthPx={editorSystemWidthsPx[sysIdx] ?? 0}
+            cellWidthPx={editorCellWidthPx}
             gapPx={editorGapPx}
+            tuplets={tuplets}
             onBeatClick={onBeatClick}
+            selectedBarIndex={selectedBarIndex}
+            onBarClick={onBarClick}
             lyrics={lyrics}
             tokens={systemTokens}
             laidOut={laidOut}
             anchors={anchors}
+            analysis={analysis}
+            durationStyle={durationStyle}
             selectedCharIndex={selectedCharIndex}
             onSelectCharIndex={onSelectCharIndex}
           />
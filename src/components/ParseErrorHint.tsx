@@ -0,0 +1,25 @@
+// src/components/ParseErrorHint.tsx
+import React from "react";
+
+export function ParseErrorHint(props: {
+  source: string;
+  error: { message: string; start: number; end: number };
+}) {
+  const { source, error } = props;
+  const start = Math.max(0, Math.min(error.start, source.length));
+  const end = Math.max(start, Math.min(error.end, source.length));
+
+  // Errors at the very end (e.g. "C/") point past the text; show a marker there.
+  const bad = end > start ? source.slice(start, end) : " ";
+
+  return (
+    <div className="parseError">
+      <span className="parseErrorSource">
+        {source.slice(0, start)}
+        <span className="parseErrorSpan">{bad}</span>
+        {source.slice(end)}
+      </span>{" "}
+      — {error.message}
+    </div>
+  );
+}
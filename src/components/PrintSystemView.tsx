@@ -1,25 +1,70 @@
 // src/components/PrintSystemView.tsx
 import React from "react";
-import type { TimeSignature, LyricAnchor } from "@/lib/types";
+import type { TimeSignature, LyricAnchor, DurationStyle, TupletSpan } from "@/lib/types";
 import type { LyricToken } from "@/lib/lyrics/tokens";
 import { LYRIC_METRICS } from "@/lib/lyrics/metrics";
-import { cellToX } from "@/lib/geometry/cellToX";
-
-type Segment = {
-  symbol: string;
-  startCellInBar: number;
-  beats: number;
-};
-
-type BarModel = {
-  barIndex: number;
-  segments: Segment[];
-};
+import { barWidthPx, cellToX, systemWidthPx as measureSystemWidth } from "@/lib/geometry/cellToX";
+import type { BarModel } from "@/lib/bars";
+import { navigationLabels } from "@/lib/navigation";
+import { pulseCells } from "@/lib/meter";
+import { ANALYSIS_KIND_LABELS, type RomanAnalysis } from "@/lib/chords/analysis";
+import { REST_GLYPH } from "@/lib/chords/format";
+import { articulationGlyphs } from "@/lib/articulations";
+import { beatCountLabel, beatSlashCells } from "@/lib/durations";
+import { barTupletBeats } from "@/lib/tuplets";
 
 function nearlyEqual(a: number, b: number) {
   return Math.abs(a - b) < 1e-9;
 }
 
+function sameVolta(a: number[] | undefined, b: number[] | undefined) {
+  if (!a?.length || !b?.length || a.length !== b.length) return false;
+  return a.every((n, i) => n === b[i]);
+}
+
+/**
+ * Thick + thin line with two dots; `side` is the side of the bar it sits on.
+ */
+function RepeatBarline(props: { side: "start" | "end"; x: number; top: number; height: number }) {
+  const { side, x, top, height } = props;
+  const thick = <div style={{ width: 3, height, background: "#111" }} />;
+  const thin = <div style={{ width: 1, height, background: "#111" }} />;
+  const dots = (
+    <div style={{ display: "grid", gap: 6, alignContent: "center", height }}>
+      <div style={{ width: 4, height: 4, borderRadius: 999, background: "#111" }} />
+      <div style={{ width: 4, height: 4, borderRadius: 999, background: "#111" }} />
+    </div>
+  );
+
+  return (
+    <div
+      style={{
+        position: "absolute",
+        top,
+        left: x,
+        transform: side === "end" ? "translateX(-100%)" : "translateX(-3px)",
+        display: "flex",
+        gap: 2,
+        alignItems: "stretch",
+      }}
+    >
+      {side === "start" ? (
+        <>
+          {thick}
+          {thin}
+          {dots}
+        </>
+      ) : (
+        <>
+          {dots}
+          {thin}
+          {thick}
+        </>
+      )}
+    </div>
+  );
+}
+
 export function PrintSystemView(props: {
   systemIndex: number;
   systemBars: BarModel[];
@@ -27,12 +72,7 @@ export function PrintSystemView(props: {
   timeSignature: TimeSignature;
   subdivision: number;
 
-  barCells: number;
-  beatsPerBar: number;
-
-  systemStartCell: number;
-
-  barWidthPx: number;
+  cellWidthPx: number; // bar width = bar.cells * cellWidthPx
   gapPx: number;
 
   // Lyric render inputs
@@ -40,31 +80,51 @@ export function PrintSystemView(props: {
   tokens: LyricToken[];
   laidOutCells: { token: LyricToken; cell: number }[];
 
+  tuplets?: TupletSpan[];
   anchors: LyricAnchor[];
+  analysis?: Map<string, RomanAnalysis>; // by chord id; printed under the chord row
+  durationStyle?: DurationStyle;
 }) {
   const {
     systemBars,
     timeSignature,
     subdivision,
-    barCells,
-    beatsPerBar,
-    systemStartCell,
-    barWidthPx,
+    cellWidthPx,
     gapPx,
     lyrics,
     tokens,
     laidOutCells,
+    tuplets,
     anchors,
+    analysis,
+    durationStyle = "ticks",
   } = props;
 
-  const barsInSystem = systemBars.length;
-  const systemWidthPx = barsInSystem * barWidthPx + (barsInSystem - 1) * gapPx;
+  const systemWidthPx = measureSystemWidth(systemBars, cellWidthPx, gapPx);
 
   const textColor = "#111";
 
   // Vertical tuning for print
-  const barAreaHeight = 58;
-  const underlineTop = 40;
+  // Meter is printed where it changes (the first bar's meter is in the page header
+  // unless this section starts in a different one).
+  const showsMeter = (bar: BarModel) =>
+    bar.barIndex === 0
+      ? bar.timeSignature.beatsPerBar !== timeSignature.beatsPerBar ||
+        bar.timeSignature.beatUnit !== timeSignature.beatUnit
+      : bar.meterChanged;
+
+  const hasNavigation = systemBars.some((b) => !!b.navigation || showsMeter(b));
+  const navTop = hasNavigation ? 18 : 0; // room above chords for voltas / Segno / D.S.
+
+  const analysisRow = analysis?.size ? 14 : 0; // Roman numerals under the underline
+  const hasArticulations = systemBars.some((b) => b.segments.some((s) => s.articulations?.length));
+  const articulationRow = hasArticulations ? 14 : 0; // accents, stops, fermatas above the chords
+
+  const tupletBeatsByBar = systemBars.map((b) => barTupletBeats(b, subdivision, tuplets));
+  const tupletRow = tupletBeatsByBar.some((t) => t.length) ? 14 : 0; // "3" brackets under the numerals
+
+  const barAreaHeight = 58 + navTop + articulationRow + analysisRow + tupletRow;
+  const underlineTop = 40 + navTop + articulationRow;
 
   const lyricHeight = 34;
   const lyricTop = 6;
@@ -88,13 +148,13 @@ export function PrintSystemView(props: {
           overflow: "visible",
         }}
       >
-        {systemBars.map((bar) => {
+        {systemBars.map((bar, barIdxInSystem) => {
           const hasAnyChords = bar.segments.length > 0;
 
           const singleFullBar =
             hasAnyChords &&
             bar.segments.length === 1 &&
-            nearlyEqual(bar.segments[0].beats, beatsPerBar);
+            nearlyEqual(bar.segments[0].cells, bar.cells);
 
           const beatsList = bar.segments.map((s) => s.beats);
           const evenlyDivided =
@@ -102,17 +162,18 @@ export function PrintSystemView(props: {
             beatsList.length > 1 &&
             beatsList.every((b) => nearlyEqual(b, beatsList[0]));
 
-          const showTicks = hasAnyChords && !singleFullBar && !evenlyDivided;
+          // Ticks/counts only where the rhythm isn't obvious; slashes mark every beat, drawn per bar.
+          const showTicks = durationStyle !== "slashes" && hasAnyChords && !singleFullBar && !evenlyDivided;
           const showUnderline = hasAnyChords && bar.segments.length > 1;
 
-          const barStartAbsCell = bar.barIndex * barCells;
+          const barStartAbsCell = bar.startCell;
           const barStartX = cellToX({
             absoluteCell: barStartAbsCell,
-            systemStartCell,
-            barCells,
-            barWidthPx,
+            bars: systemBars,
+            cellWidthPx,
             gapPx,
           });
+          const barW = barWidthPx(bar, cellWidthPx);
 
           // Underline for multi-chord bars
           if (showUnderline) {
@@ -124,15 +185,130 @@ export function PrintSystemView(props: {
             }
           }
 
+          const nav = bar.navigation;
+          const navText = navigationLabels(nav);
+          const prevNav = systemBars[barIdxInSystem - 1]?.navigation;
+          const voltaContinues = sameVolta(prevNav?.volta, nav?.volta);
+          const barEndX = barStartX + barW;
+          const meterShown = showsMeter(bar);
+          const startRowPx = (navText.start.length ? 18 : 0) + (meterShown ? 18 : 0);
+
           return (
             <React.Fragment key={bar.barIndex}>
+              {nav?.repeatStart ? (
+                <RepeatBarline side="start" x={barStartX} top={navTop + 4} height={barAreaHeight - navTop - 10} />
+              ) : null}
+              {nav?.repeatEnd ? (
+                <RepeatBarline side="end" x={barEndX} top={navTop + 4} height={barAreaHeight - navTop - 10} />
+              ) : null}
+              {nav?.repeatEnd && (nav.repeatTimes ?? 2) > 2 ? (
+                <div
+                  style={{
+                    position: "absolute",
+                    left: barEndX,
+                    top: barAreaHeight - 10,
+                    transform: "translateX(-100%)",
+                    fontSize: 11,
+                    fontWeight: 600,
+                  }}
+                >
+                  ×{nav.repeatTimes}
+                </div>
+              ) : null}
+
+              {nav?.volta?.length ? (
+                <div
+                  style={{
+                    position: "absolute",
+                    left: barStartX + startRowPx,
+                    width: barW - startRowPx - 4,
+                    top: 2,
+                    height: navTop + 6,
+                    borderTop: "1px solid #111",
+                    borderLeft: voltaContinues ? "none" : "1px solid #111",
+                    fontSize: 11,
+                    lineHeight: "13px",
+                    paddingLeft: 3,
+                    color: textColor,
+                  }}
+                >
+                  {voltaContinues ? null : `${nav.volta.join(", ")}.`}
+                </div>
+              ) : null}
+
+              {navText.start.length || meterShown ? (
+                <div
+                  style={{
+                    position: "absolute",
+                    left: barStartX,
+                    top: 0,
+                    display: "flex",
+                    gap: 4,
+                    alignItems: "flex-start",
+                    fontSize: 16,
+                    lineHeight: "16px",
+                    color: textColor,
+                  }}
+                >
+                  {navText.start.length ? <span>{navText.start.join(" ")}</span> : null}
+                  {meterShown ? (
+                    <span
+                      style={{
+                        display: "grid",
+                        justifyItems: "center",
+                        fontSize: 10,
+                        lineHeight: "9px",
+                        fontWeight: 800,
+                      }}
+                    >
+                      <span>{bar.timeSignature.beatsPerBar}</span>
+                      <span>{bar.timeSignature.beatUnit}</span>
+                    </span>
+                  ) : null}
+                </div>
+              ) : null}
+
+              {navText.end.length ? (
+                <div
+                  style={{
+                    position: "absolute",
+                    left: barEndX,
+                    top: nav?.volta?.length ? navTop - 2 : 1,
+                    transform: "translateX(-100%)",
+                    fontSize: 12,
+                    fontStyle: "italic",
+                    fontWeight: 600,
+                    whiteSpace: "nowrap",
+                    color: textColor,
+                  }}
+                >
+                  {navText.end.join("  ")}
+                </div>
+              ) : null}
+
+              {durationStyle === "slashes"
+                ? beatSlashCells(bar, subdivision).map((cell) => (
+                    <div
+                      key={`slash-${bar.barIndex}-${cell}`}
+                      style={{
+                        position: "absolute",
+                        left: cellToX({ absoluteCell: barStartAbsCell + cell, bars: systemBars, cellWidthPx, gapPx }) + 3,
+                        top: 2 + navTop + articulationRow,
+                        height: 12,
+                        borderLeft: `2px solid ${textColor}`,
+                        transform: "rotate(25deg)",
+                      }}
+                    />
+                  ))
+                : null}
+
               {showUnderline ? (
                 <div
                   style={{
                     position: "absolute",
                     left: barStartX,
                     top: underlineTop,
-                    width: barWidthPx,
+                    width: barW,
                     height: 3,
                     background: "rgba(0,0,0,0.28)",
                     borderRadius: 999,
@@ -140,57 +316,115 @@ export function PrintSystemView(props: {
                 />
               ) : null}
 
+              {tupletBeatsByBar[barIdxInSystem].map((t) => {
+                const left = cellToX({ absoluteCell: barStartAbsCell + t.cellInBar, bars: systemBars, cellWidthPx, gapPx });
+                return (
+                  <div
+                    key={`tuplet-${bar.barIndex}-${t.cellInBar}`}
+                    style={{
+                      position: "absolute",
+                      left,
+                      width: t.cells * cellWidthPx - 4,
+                      top: underlineTop + 6 + analysisRow,
+                      height: 6,
+                      border: `1px solid ${textColor}`,
+                      borderTop: "none",
+                      color: textColor,
+                      fontSize: 10,
+                      lineHeight: "10px",
+                      textAlign: "center",
+                    }}
+                  >
+                    <span style={{ background: "#fff", padding: "0 2px" }}>{t.divisions}</span>
+                  </div>
+                );
+              })}
+
               {bar.segments.map((seg, idx) => {
                 const absCell = barStartAbsCell + seg.startCellInBar;
                 const x = cellToX({
                   absoluteCell: absCell,
-                  systemStartCell,
-                  barCells,
-                  barWidthPx,
+                  bars: systemBars,
+                  cellWidthPx,
                   gapPx,
                 });
 
-                const tickCount = Math.max(1, Math.round(seg.beats));
+                // One tick per counted pulse (a dotted quarter in 6/8, a quarter in 4/4)
+                const tickCount = Math.max(
+                  1,
+                  Math.round(seg.cells / pulseCells(bar.timeSignature, subdivision))
+                );
+
+                const numeral = analysis?.get(seg.id);
+                const marks = articulationGlyphs(seg.articulations);
 
                 return (
-                  <div
-                    key={`${bar.barIndex}-${seg.symbol}-${idx}-${seg.startCellInBar}`}
-                    style={{
-                      position: "absolute",
-                      left: x,
-                      top: 2,
-                      color: textColor,
-                      fontFamily: "system-ui",
-                      zIndex: 3,
-                      whiteSpace: "nowrap",
-                    }}
-                  >
-                    {showTicks ? (
+                  <React.Fragment key={`${bar.barIndex}-${seg.symbol}-${idx}-${seg.startCellInBar}`}>
+                    <div
+                      style={{
+                        position: "absolute",
+                        left: x,
+                        top: 2 + navTop,
+                        color: textColor,
+                        fontFamily: "system-ui",
+                        zIndex: 3,
+                        whiteSpace: "nowrap",
+                      }}
+                    >
+                      {articulationRow ? (
+                        <div style={{ display: "flex", gap: 3, height: articulationRow, fontSize: 13, lineHeight: "13px" }}>
+                          {marks.map((m) => (
+                            <span key={m.id} title={m.label}>
+                              {m.glyph}
+                            </span>
+                          ))}
+                        </div>
+                      ) : null}
+                      {showTicks ? (
+                        <div
+                          style={{
+                            fontFamily: "monospace",
+                            fontSize: 12,
+                            lineHeight: "12px",
+                            marginBottom: 3,
+                            opacity: 0.9,
+                          }}
+                        >
+                          {durationStyle === "counts" ? beatCountLabel(seg, bar, subdivision) : ">".repeat(tickCount)}
+                        </div>
+                      ) : (
+                        <div style={{ height: 12 }} />
+                      )}
+
                       <div
                         style={{
-                          fontFamily: "monospace",
-                          fontSize: 12,
-                          lineHeight: "12px",
-                          marginBottom: 3,
-                          opacity: 0.9,
+                          fontSize: 18,
+                          lineHeight: "20px",
+                          fontWeight: 600,
                         }}
                       >
-                        {">".repeat(tickCount)}
+                        {seg.kind === "rest" ? REST_GLYPH : seg.symbol}
                       </div>
-                    ) : (
-                      <div style={{ height: 12 }} />
-                    )}
-
-                    <div
-                      style={{
-                        fontSize: 18,
-                        lineHeight: "20px",
-                        fontWeight: 600,
-                      }}
-                    >
-                      {seg.symbol}
                     </div>
-                  </div>
+                    {numeral ? (
+                      <div
+                        title={ANALYSIS_KIND_LABELS[numeral.kind]}
+                        style={{
+                          position: "absolute",
+                          left: x,
+                          top: underlineTop + 6,
+                          color: textColor,
+                          fontFamily: "Georgia, serif",
+                          fontSize: 11,
+                          lineHeight: "12px",
+                          fontStyle: numeral.kind === "diatonic" ? "normal" : "italic",
+                          whiteSpace: "nowrap",
+                        }}
+                      >
+                        {numeral.numeral}
+                      </div>
+                    ) : null}
+                  </React.Fragment>
                 );
               })}
             </React.Fragment>
@@ -224,9 +458,8 @@ export function PrintSystemView(props: {
             {laidOutCells.map(({ token, cell }, i) => {
               const x = cellToX({
                 absoluteCell: cell,
-                systemStartCell,
-                barCells,
-                barWidthPx,
+                bars: systemBars,
+                cellWidthPx,
                 gapPx,
               });
 
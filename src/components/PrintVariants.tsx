@@ -0,0 +1,82 @@
+// src/components/PrintVariants.tsx
+import React from "react";
+import type { PrintVariant } from "@/lib/types";
+import { MAX_CAPO } from "@/lib/capo";
+import { INSTRUMENTS, type Instrument } from "@/lib/instruments";
+
+export function PrintVariants(props: {
+  variants: PrintVariant[];
+  docCapo: number;
+  onChange: (variants: PrintVariant[]) => void;
+  onPrint: (variantId: string) => void;
+}) {
+  const { variants, docCapo, onChange, onPrint } = props;
+
+  const patch = (id: string, next: Partial<PrintVariant>) =>
+    onChange(variants.map((v) => (v.id === id ? { ...v, ...next } : v)));
+
+  return (
+    <div className="sectionsRow">
+      <div className="fieldLabel">Print variants</div>
+
+      {variants.map((v) => (
+        <div key={v.id} className="inline" style={{ gap: 6 }}>
+          <input
+            value={v.name}
+            onChange={(e) => patch(v.id, { name: e.target.value })}
+            style={{ width: 140 }}
+          />
+          <select
+            value={v.instrument ?? "concert"}
+            onChange={(e) => {
+              const instrument = e.target.value as Instrument;
+              patch(v.id, { instrument: instrument === "concert" ? undefined : instrument });
+            }}
+            title="Transposing-instrument part"
+          >
+            {INSTRUMENTS.map((i) => (
+              <option key={i.id} value={i.id}>
+                {i.label}
+              </option>
+            ))}
+          </select>
+          <select
+            value={v.capo === undefined ? "" : String(v.capo)}
+            disabled={!!v.instrument}
+            onChange={(e) => patch(v.id, { capo: e.target.value === "" ? undefined : Number(e.target.value) })}
+            title="Capo for this variant"
+          >
+            <option value="">Capo as doc ({docCapo || "none"})</option>
+            <option value="0">No capo</option>
+            {Array.from({ length: MAX_CAPO }, (_, i) => i + 1).map((fret) => (
+              <option key={fret} value={fret}>
+                Capo {fret}
+              </option>
+            ))}
+          </select>
+          <button type="button" className="chip" onClick={() => onPrint(v.id)}>
+            Print
+          </button>
+          <button
+            type="button"
+            className="chip"
+            onClick={() => onChange(variants.filter((x) => x.id !== v.id))}
+            title="Remove variant"
+          >
+            ×
+          </button>
+        </div>
+      ))}
+
+      <button
+        type="button"
+        className="chip"
+        onClick={() =>
+          onChange([...variants, { id: crypto.randomUUID(), name: `Variant ${variants.length + 1}` }])
+        }
+      >
+        + Variant
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,58 @@
+// src/components/RekeyPreview.tsx
+import React from "react";
+import type { RekeyChange } from "@/lib/transpose";
+import { keyLabel } from "@/lib/keys";
+
+export function RekeyPreview(props: {
+  fromKey: string;
+  toKey: string;
+  keyOptions: string[]; // full key values ("Bb", "Gm"), in the song's mode
+  onKeyChange: (key: string) => void;
+
+  changes: RekeyChange[];
+
+  onApply: () => void;
+  onCancel: () => void;
+}) {
+  const { fromKey, toKey, keyOptions, onKeyChange, changes, onApply, onCancel } = props;
+
+  return (
+    <div className="card" style={{ display: "grid", gap: 8, padding: 10 }}>
+      <div className="row" style={{ gap: 8 }}>
+        <strong style={{ fontSize: 13 }}>Re-key the song: {keyLabel(fromKey)} →</strong>
+        <select value={toKey} onChange={(e) => onKeyChange(e.target.value)}>
+          {keyOptions.map((k) => (
+            <option key={k} value={k}>
+              {keyLabel(k)}
+            </option>
+          ))}
+        </select>
+
+        <div className="spacer" />
+
+        <button type="button" onClick={onApply}>
+          Apply
+        </button>
+        <button type="button" onClick={onCancel}>
+          Cancel
+        </button>
+      </div>
+
+      <div className="muted">
+        Stored chords are rewritten in the new key and the display transposition is reset.{" "}
+        {changes.length ? "Changes:" : "No chord symbols change."}
+      </div>
+
+      {changes.length ? (
+        <div className="row" style={{ gap: 6, flexWrap: "wrap" }}>
+          {changes.map((c) => (
+            <span key={`${c.from}-${c.to}`} className="chip">
+              {c.from} → <strong>{c.to}</strong>
+              {c.count > 1 ? <span className="muted"> ×{c.count}</span> : null}
+            </span>
+          ))}
+        </div>
+      ) : null}
+    </div>
+  );
+}
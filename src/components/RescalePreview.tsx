@@ -0,0 +1,68 @@
+// src/components/RescalePreview.tsx
+import React from "react";
+import type { BarResizeMode, RescaleReport } from "@/lib/rescale";
+
+export function RescalePreview(props: {
+  title: string;
+  report: RescaleReport;
+
+  // Only for beats-per-bar changes.
+  mode?: BarResizeMode;
+  onModeChange?: (mode: BarResizeMode) => void;
+
+  onApply: () => void;
+  onCancel: () => void;
+}) {
+  const { title, report, mode, onModeChange, onApply, onCancel } = props;
+  const dropped = report.droppedChords.length + report.droppedAnchors.length;
+
+  return (
+    <div className="card" style={{ display: "grid", gap: 8, padding: 10 }}>
+      <div className="row" style={{ gap: 8 }}>
+        <strong style={{ fontSize: 13 }}>{title}</strong>
+
+        {mode && onModeChange ? (
+          <>
+            <button
+              type="button"
+              className={mode === "bars" ? "chip chipActive" : "chip"}
+              onClick={() => onModeChange("bars")}
+              title="Chords stay in their bar; bars are cut short or padded"
+            >
+              Keep bar positions
+            </button>
+            <button
+              type="button"
+              className={mode === "beats" ? "chip chipActive" : "chip"}
+              onClick={() => onModeChange("beats")}
+              title="Chords stay on their beat; barlines move"
+            >
+              Keep absolute beats
+            </button>
+          </>
+        ) : null}
+
+        <div className="spacer" />
+
+        <button type="button" onClick={onApply}>
+          Apply
+        </button>
+        <button type="button" onClick={onCancel}>
+          Cancel
+        </button>
+      </div>
+
+      <div className="muted">
+        {mode === "beats"
+          ? `${report.moved} chord/anchor(s) land in a different bar.`
+          : `${report.moved} chord/anchor(s) move.`}
+        {report.offGrid ? ` ${report.offGrid} fall between grid cells (kept at their exact time).` : ""}
+        {dropped
+          ? ` Dropped past the new barline: ${
+              report.droppedChords.map((c) => c.symbol).join(" ") || "no chords"
+            }${report.droppedAnchors.length ? `, ${report.droppedAnchors.length} lyric anchor(s)` : ""}.`
+          : ""}
+      </div>
+    </div>
+  );
+}
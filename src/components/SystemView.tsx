@@ -1,17 +1,15 @@
 // src/components/SystemView.tsx
 import React from "react";
-import type { ChordEvent, LyricAnchor, TimeSignature } from "@/lib/types";
-
-type Segment = {
-  symbol: string;
-  startCellInBar: number;
-  beats: number;
-};
-
-type BarModel = {
-  barIndex: number;
-  segments: Segment[];
-};
+import type { ChordEvent, DurationStyle, LyricAnchor, TupletSpan } from "@/lib/types";
+import type { BarModel } from "@/lib/bars";
+import { navigationLabels } from "@/lib/navigation";
+import { countLabelsForBar, pulseCells } from "@/lib/meter";
+import type { GridPos } from "@/lib/timeline";
+import { barGridSlots } from "@/lib/tuplets";
+import { ANALYSIS_KIND_LABELS, type RomanAnalysis } from "@/lib/chords/analysis";
+import { REST_GLYPH } from "@/lib/chords/format";
+import { articulationGlyphs } from "@/lib/articulations";
+import { beatCountLabel, beatSlashCells } from "@/lib/durations";
 
 function nearlyEqual(a: number, b: number, eps = 1e-6) {
   return Math.abs(a - b) < eps;
@@ -38,16 +36,19 @@ export function SystemView(props: {
   mode?: "editor" | "print";
   systemIndex: number;
   systemBars: BarModel[];
-  timeSignature: TimeSignature;
   subdivision: number;
-  barCells: number;
-  beatsPerBar: number;
+  tuplets?: TupletSpan[];
+  analysis?: Map<string, RomanAnalysis>; // by chord id
+  durationStyle?: DurationStyle;
 
   systemWidthPx: number;
-  barWidthPx: number;
+  cellWidthPx: number; // bar width = bar.cells * cellWidthPx
   gapPx: number;
 
-  onBeatClick?: (absoluteCell: number) => void;
+  onBeatClick?: (pos: GridPos) => void;
+
+  selectedBarIndex?: number | null;
+  onBarClick?: (barIndex: number) => void;
 
   lyrics: string;
   tokens: Token[];
@@ -61,14 +62,16 @@ export function SystemView(props: {
     mode = "editor",
     systemIndex,
     systemBars,
-    timeSignature,
     subdivision,
-    barCells,
-    beatsPerBar,
+    tuplets,
+    analysis,
+    durationStyle = "ticks",
     systemWidthPx,
-    barWidthPx,
+    cellWidthPx,
     gapPx,
     onBeatClick,
+    selectedBarIndex = null,
+    onBarClick,
     lyrics,
     tokens,
     laidOut,
@@ -82,7 +85,7 @@ export function SystemView(props: {
   const showBeatLabels = !isPrint;
   const showGrid = !isPrint;
   const showUnderline = true;
-  const showTicks = true;
+  const showTicks = durationStyle !== "slashes"; // slashes are drawn per bar instead
 
   const textColor = isPrint ? "#111" : "white";
 
@@ -92,7 +95,14 @@ export function SystemView(props: {
     <div style={{ width: systemWidthPx, maxWidth: "100%" }}>
       <div style={{ display: "flex", gap: gapPx, alignItems: "stretch" }}>
         {systemBars.map((bar) => {
-          const { segments } = bar;
+          const { segments, navigation, timeSignature } = bar;
+          const barCells = bar.cells;
+          const barWidthPx = barCells * cellWidthPx;
+          // Pickups count from the end of a bar and tuplet beats split into their own slots.
+          const slots = barGridSlots(bar, subdivision, tuplets);
+          const isSelectedBar = selectedBarIndex === bar.barIndex;
+          const nav = navigationLabels(navigation);
+          const repeatBorder = "4px double rgba(255,255,255,0.55)";
 
           return (
             <div
@@ -104,14 +114,65 @@ export function SystemView(props: {
                 background: isPrint ? "transparent" : "rgba(255,255,255,0.06)",
                 border: isPrint
                   ? "none"
+                  : isSelectedBar
+                  ? "1px solid rgba(255,255,255,0.45)"
                   : "1px solid rgba(255,255,255,0.10)",
+                borderLeft: !isPrint && navigation?.repeatStart ? repeatBorder : undefined,
+                borderRight: !isPrint && navigation?.repeatEnd ? repeatBorder : undefined,
                 padding: isPrint ? 0 : 14,
                 position: "relative",
               }}
             >
               {!isPrint ? (
-                <div style={{ fontSize: 12, opacity: 0.7, marginBottom: 8, color: textColor }}>
-                  Bar {bar.barIndex + 1} ({beatsPerBar}/{timeSignature.beatUnit})
+                <div
+                  style={{
+                    display: "flex",
+                    gap: 8,
+                    alignItems: "baseline",
+                    fontSize: 12,
+                    marginBottom: 8,
+                    color: textColor,
+                  }}
+                >
+                  <button
+                    type="button"
+                    onClick={() => onBarClick?.(bar.barIndex)}
+                    disabled={!onBarClick}
+                    title="Select bar (repeats, endings, jumps)"
+                    style={{
+                      background: "transparent",
+                      border: "none",
+                      boxShadow: "none",
+                      padding: 0,
+                      fontSize: 12,
+                      opacity: isSelectedBar ? 1 : 0.7,
+                      cursor: onBarClick ? "pointer" : "default",
+                    }}
+                  >
+                    {bar.pickup ? "Pickup" : `Bar ${bar.number}`}{" "}
+                    <span style={{ fontWeight: bar.meterChanged ? 800 : 400 }}>
+                      ({bar.pickup
+                        ? `${bar.cells / subdivision} of ${timeSignature.beatsPerBar}`
+                        : `${timeSignature.beatsPerBar}/${timeSignature.beatUnit}`})
+                    </span>
+                  </button>
+
+                  {navigation?.repeatStart ? <strong>|:</strong> : null}
+                  {nav.start.length ? <span>{nav.start.join(" ")}</span> : null}
+                  {navigation?.volta?.length ? (
+                    <span style={{ borderTop: "1px solid currentColor", borderLeft: "1px solid currentColor", padding: "0 6px" }}>
+                      {navigation.volta.join(", ")}.
+                    </span>
+                  ) : null}
+
+                  <span style={{ flex: 1 }} />
+
+                  {nav.end.length ? <span style={{ fontStyle: "italic" }}>{nav.end.join(" • ")}</span> : null}
+                  {navigation?.repeatEnd ? (
+                    <strong>
+                      :|{(navigation.repeatTimes ?? 2) > 2 ? ` ×${navigation.repeatTimes}` : ""}
+                    </strong>
+                  ) : null}
                 </div>
               ) : null}
 
@@ -131,22 +192,25 @@ export function SystemView(props: {
                       pointerEvents: "none",
                     }}
                   >
-                    {Array.from({ length: barCells }).map((_, cellIdx) => {
-                      const leftPct = (cellIdx / barCells) * 100;
-                      const isBeatLine = subdivision === 1 ? true : cellIdx % subdivision === 0;
+                    {slots.map((slot, slotIdx) => {
+                      const leftPct = (slot.cellInBar / barCells) * 100;
+                      const { weight } = slot;
 
                       return (
                         <div
-                          key={cellIdx}
+                          key={slotIdx}
                           style={{
                             position: "absolute",
                             top: 0,
                             bottom: 0,
                             left: `${leftPct}%`,
                             width: 1,
-                            background: isBeatLine
-                              ? "rgba(255,255,255,0.20)"
-                              : "rgba(255,255,255,0.10)",
+                            background:
+                              weight === "pulse"
+                                ? "rgba(255,255,255,0.28)"
+                                : weight === "beat"
+                                ? "rgba(255,255,255,0.16)"
+                                : "rgba(255,255,255,0.08)",
                           }}
                         />
                       );
@@ -157,21 +221,16 @@ export function SystemView(props: {
                 {/* Beat labels */}
                 {showBeatLabels && onBeatClick ? (
                   <div style={{ position: "absolute", inset: 0 }}>
-                    {Array.from({ length: barCells }).map((_, cellIdx) => {
-                      const leftPct = (cellIdx / barCells) * 100;
-                      const widthPct = (1 / barCells) * 100;
-
-                      const beatNumber = Math.floor(cellIdx / subdivision) + 1;
-                      const sub = cellIdx % subdivision;
-                      const label =
-                        subdivision === 1 ? `${beatNumber}` : sub === 0 ? `${beatNumber}` : "&";
+                    {slots.map((slot, slotIdx) => {
+                      const leftPct = (slot.cellInBar / barCells) * 100;
+                      const widthPct = (slot.widthCells / barCells) * 100;
 
                       return (
                         <button
-                          key={cellIdx}
+                          key={slotIdx}
                           type="button"
-                          title={`Beat ${label}`}
-                          onClick={() => onBeatClick(bar.barIndex * barCells + cellIdx)}
+                          title={`Beat ${slot.label}`}
+                          onClick={() => onBeatClick(slot.pos)}
                           style={{
                             position: "absolute",
                             top: 0,
@@ -212,10 +271,37 @@ export function SystemView(props: {
                   />
                 ) : null}
 
+                {/* Beat slashes, proportional across the bar */}
+                {durationStyle === "slashes"
+                  ? beatSlashCells(bar, subdivision).map((cell) => (
+                      <div
+                        key={`slash-${cell}`}
+                        style={{
+                          position: "absolute",
+                          left: isPrint
+                            ? `${(cell / barCells) * 100}%`
+                            : `calc(${(cell / barCells) * 100}% + 12px)`,
+                          top: isPrint ? 0 : 2,
+                          height: isPrint ? 12 : 18,
+                          borderLeft: `${isPrint ? 2 : 3}px solid ${textColor}`,
+                          // Same offset as the chord labels, so slashes sit in the chord columns.
+                          transform: isPrint ? "rotate(25deg)" : "translateX(-2px) rotate(25deg)",
+                          opacity: 0.9,
+                          zIndex: 3,
+                        }}
+                      />
+                    ))
+                  : null}
+
                 {/* Chords + ticks */}
                 {segments.map((seg, idx) => {
                   const leftPct = (seg.startCellInBar / barCells) * 100;
-                  const tickCount = Math.max(1, Math.round(seg.beats));
+                  const tickCount = Math.max(
+                    1,
+                    Math.round(seg.cells / pulseCells(timeSignature, subdivision))
+                  );
+                  const numeral = analysis?.get(seg.id);
+                  const marks = articulationGlyphs(seg.articulations);
 
                   return (
                     <div
@@ -241,7 +327,7 @@ export function SystemView(props: {
                             opacity: 0.9,
                           }}
                         >
-                          {">".repeat(tickCount)}
+                          {durationStyle === "counts" ? beatCountLabel(seg, bar, subdivision) : ">".repeat(tickCount)}
                         </div>
                       ) : (
                         <div style={{ height: isPrint ? 12 : 24 }} />
@@ -255,8 +341,40 @@ export function SystemView(props: {
                           whiteSpace: "nowrap",
                         }}
                       >
-                        {seg.symbol}
+                        {seg.kind === "rest" ? <span title="Rest">{REST_GLYPH}</span> : seg.symbol}
+                        {/* Articulations ride next to the chord here; print stacks them above it */}
+                        {marks.map((m) => (
+                          <span
+                            key={m.id}
+                            title={m.label}
+                            style={{ fontSize: isPrint ? 11 : 14, marginLeft: 4, verticalAlign: "super", opacity: 0.85 }}
+                          >
+                            {m.glyph}
+                          </span>
+                        ))}
                       </div>
+
+                      {/* Roman numeral, below the underline; non-diatonic chords are highlighted */}
+                      {numeral ? (
+                        <div
+                          title={ANALYSIS_KIND_LABELS[numeral.kind]}
+                          style={{
+                            marginTop: isPrint ? 6 : 12,
+                            fontFamily: "Georgia, serif",
+                            fontSize: isPrint ? 11 : 13,
+                            lineHeight: isPrint ? "12px" : "16px",
+                            whiteSpace: "nowrap",
+                            color:
+                              numeral.kind === "diatonic" || isPrint
+                                ? textColor
+                                : numeral.kind === "borrowed" || numeral.kind === "chromatic"
+                                ? "#f0b46a"
+                                : "#8fd3ff",
+                          }}
+                        >
+                          {numeral.numeral}
+                        </div>
+                      ) : null}
                     </div>
                   );
                 })}
@@ -280,7 +398,9 @@ export function SystemView(props: {
         {!isPrint ? (
           <div style={{ opacity: 0.7, fontSize: 12, marginBottom: 6, color: textColor }}>
             Lyrics (continuous) — click a word then click{" "}
-            {subdivision > 1 ? "1 & 2 & 3 & 4 &" : "a beat"}
+            {systemBars[0]
+              ? countLabelsForBar(systemBars[0].timeSignature, subdivision).join(" ")
+              : "a beat"}
           </div>
         ) : null}
 
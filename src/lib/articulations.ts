@@ -0,0 +1,41 @@
+// src/lib/articulations.ts
+import type { Articulation } from "./types";
+
+/**
+ * Every articulation in display order, with its mark in the chord draft (`G{>.}`)
+ * and the glyph printed above the chord.
+ */
+export const ARTICULATIONS: { id: Articulation; mark: string; glyph: string; label: string }[] = [
+  { id: "push", mark: "<", glyph: "↶", label: "Push (anticipates the next bar)" },
+  { id: "accent", mark: ">", glyph: ">", label: "Accent / stab" },
+  { id: "staccato", mark: ".", glyph: "•", label: "Stop (staccato)" },
+  { id: "tie", mark: "_", glyph: "‿", label: "Tied (not restruck)" },
+  { id: "fermata", mark: "U", glyph: "𝄐", label: "Fermata (hold)" },
+];
+
+export function articulationFromMark(mark: string): Articulation | undefined {
+  return ARTICULATIONS.find((a) => a.mark === mark)?.id;
+}
+
+/**
+ * Articulations in display order, without duplicates.
+ */
+export function sortArticulations(list: Articulation[]): Articulation[] {
+  return ARTICULATIONS.map((a) => a.id).filter((id) => list.includes(id));
+}
+
+/**
+ * Draft marks, e.g. "{>.}" for an accented stop ("" when there are none).
+ */
+export function articulationMarks(list: Articulation[] | undefined): string {
+  if (!list?.length) return "";
+  const marks = sortArticulations(list).map((id) => ARTICULATIONS.find((a) => a.id === id)?.mark);
+  return `{${marks.join("")}}`;
+}
+
+export function articulationGlyphs(list: Articulation[] | undefined) {
+  return sortArticulations(list ?? []).flatMap((id) => {
+    const a = ARTICULATIONS.find((x) => x.id === id);
+    return a ? [{ id, glyph: a.glyph, label: a.label }] : [];
+  });
+}
@@ -0,0 +1,191 @@
+// src/lib/barEdits.ts
+import type { ChordEvent, LyricAnchor, MeterChange, Section, TimeSignature, TupletSpan } from "./types";
+import { barCellsFor, fullBarCount, sectionBarTable } from "./bars";
+import { comparePos, posOf, shiftPos } from "./timeline";
+
+type InsertedBar = {
+  timeSignature: TimeSignature;
+  source?: number; // barIndex whose chords (and tuplets) are copied in
+};
+
+function sameMeter(a: TimeSignature, b: TimeSignature) {
+  return a.beatsPerBar === b.beatsPerBar && a.beatUnit === b.beatUnit;
+}
+
+function tableOf(section: Section, timeSignature: TimeSignature, subdivision: number) {
+  return sectionBarTable({
+    chords: section.chords,
+    anchors: section.anchors,
+    timeSignature,
+    subdivision,
+    meterChanges: section.meterChanges,
+    pickupBeats: section.pickupBeats,
+    barCount: section.barCount,
+  });
+}
+
+/**
+ * Replace `deleteCount` bars from `start` with `insert`, rippling everything after:
+ * chords and anchors move by the change in cells, bar-indexed markup by the change
+ * in bars. Chords in deleted bars are removed; anchors there are dropped, so their
+ * words go back to being unanchored (the lyrics text is never touched).
+ * Meters stay with their bars: meter changes are rebuilt from the new bar list.
+ */
+function spliceBars(
+  section: Section,
+  args: {
+    timeSignature: TimeSignature;
+    subdivision: number;
+    start: number;
+    deleteCount: number;
+    insert: InsertedBar[];
+  }
+): Section {
+  const { timeSignature, subdivision, insert } = args;
+
+  const table = tableOf(section, timeSignature, subdivision);
+  const hasPickup = !!table[0]?.pickup;
+
+  // Nothing goes in front of a pickup.
+  const minStart = hasPickup && args.deleteCount === 0 ? 1 : 0;
+  const start = Math.max(minStart, Math.min(args.start, table.length));
+  const deleteCount = Math.max(0, Math.min(args.deleteCount, table.length - start));
+  const deleteEnd = start + deleteCount;
+
+  const last = table[table.length - 1];
+  const endCell = last ? last.startCell + last.cells : 0;
+  const cellAt = (barIndex: number) => (barIndex < table.length ? table[barIndex].startCell : endCell);
+
+  const fromCell = cellAt(start);
+  const toCell = cellAt(deleteEnd);
+
+  const insertedStarts: number[] = [];
+  let insertedCells = 0;
+  for (const bar of insert) {
+    insertedStarts.push(fromCell + insertedCells);
+    const source = bar.source !== undefined ? table[bar.source] : undefined;
+    insertedCells += source && !source.pickup ? source.cells : barCellsFor(bar.timeSignature, subdivision);
+  }
+
+  const cellShift = insertedCells - (toCell - fromCell);
+  const barShift = insert.length - deleteCount;
+
+  function ripple<T extends ChordEvent | LyricAnchor>(events: T[]): T[] {
+    const out: T[] = [];
+    for (const e of events) {
+      const pos = posOf(e);
+      if (pos < fromCell) out.push(e);
+      else if (pos >= toCell) out.push(shiftPos(e, cellShift));
+    }
+    return out;
+  }
+
+  function rippleBars<T extends { barIndex: number }>(items: T[] | undefined): T[] | undefined {
+    if (!items) return items;
+    return items
+      .filter((x) => x.barIndex < start || x.barIndex >= deleteEnd)
+      .map((x) => (x.barIndex >= deleteEnd ? { ...x, barIndex: x.barIndex + barShift } : x));
+  }
+
+  const chords = ripple(section.chords);
+  let tuplets = rippleBars(section.tuplets);
+
+  insert.forEach((bar, i) => {
+    const source = bar.source !== undefined ? table[bar.source] : undefined;
+    if (!source) return;
+
+    const sourceEnd = source.startCell + source.cells;
+    for (const c of section.chords) {
+      const pos = posOf(c);
+      if (pos < source.startCell || pos >= sourceEnd) continue;
+      chords.push({ ...shiftPos(c, insertedStarts[i] - source.startCell), id: crypto.randomUUID() });
+    }
+
+    const copied: TupletSpan[] = (section.tuplets ?? [])
+      .filter((t) => t.barIndex === source.barIndex)
+      .map((t) => ({ ...t, barIndex: start + i }));
+    if (copied.length) tuplets = [...(tuplets ?? []), ...copied];
+  });
+
+  const meters = table.map((b) => b.timeSignature);
+  meters.splice(start, deleteCount, ...insert.map((b) => b.timeSignature));
+
+  const meterChanges: MeterChange[] = [];
+  meters.forEach((ts, barIndex) => {
+    const prev = barIndex === 0 ? timeSignature : meters[barIndex - 1];
+    if (!sameMeter(prev, ts)) meterChanges.push({ barIndex, timeSignature: ts });
+  });
+
+  const deletedPickup = hasPickup && start === 0 && deleteCount > 0;
+  const deletedFull = deleteCount - (deletedPickup ? 1 : 0);
+
+  return {
+    ...section,
+    pickupBeats: deletedPickup ? undefined : section.pickupBeats,
+    barCount: Math.max(1, fullBarCount(table) - deletedFull + insert.length),
+    chords: chords.sort(comparePos),
+    anchors: ripple(section.anchors),
+    navigation: rippleBars(section.navigation),
+    meterChanges: meterChanges.length ? meterChanges : undefined,
+    tuplets: tuplets?.sort((a, b) => a.barIndex - b.barIndex || (a.beat ?? -1) - (b.beat ?? -1)),
+  };
+}
+
+/**
+ * Insert `count` empty bars before bar `at` (use `barIndex + 1` to insert after).
+ * New bars take the meter of the bar just before them.
+ */
+export function insertBars(
+  section: Section,
+  at: number,
+  count: number,
+  timeSignature: TimeSignature,
+  subdivision: number
+): Section {
+  const table = tableOf(section, timeSignature, subdivision);
+  const neighbour = table[Math.max(0, Math.min(at, table.length) - 1)];
+  const ts = neighbour?.timeSignature ?? timeSignature;
+
+  return spliceBars(section, {
+    timeSignature,
+    subdivision,
+    start: at,
+    deleteCount: 0,
+    insert: Array.from({ length: Math.max(0, count) }, () => ({ timeSignature: ts })),
+  });
+}
+
+/**
+ * Delete `count` bars from `start`, pulling later bars back.
+ */
+export function deleteBars(
+  section: Section,
+  start: number,
+  count: number,
+  timeSignature: TimeSignature,
+  subdivision: number
+): Section {
+  return spliceBars(section, { timeSignature, subdivision, start, deleteCount: count, insert: [] });
+}
+
+/**
+ * Copy bars [start, start + count) with their chords right after the range.
+ */
+export function duplicateBars(
+  section: Section,
+  start: number,
+  count: number,
+  timeSignature: TimeSignature,
+  subdivision: number
+): Section {
+  const table = tableOf(section, timeSignature, subdivision);
+  const range = table.slice(Math.max(0, start), Math.max(0, start) + Math.max(0, count));
+
+  return spliceBars(section, {
+    timeSignature,
+    subdivision,
+    start: Math.max(0, start) + range.length,
+    deleteCount: 0,
+    insert: range.map((b) => ({ timeSignature: b.timeSignature, source: b.barIndex })),
+  });
+}
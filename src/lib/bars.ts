@@ -0,0 +1,246 @@
+// src/lib/bars.ts
+import type {
+  Articulation,
+  BarNavigation,
+  ChordEvent,
+  ChordEventKind,
+  MeterChange,
+  TimeSignature,
+} from "./types";
+import { posOf, type GridPos } from "./timeline";
+
+export type Segment = {
+  id: string; // chord event id
+  symbol: string;
+  kind?: ChordEventKind;
+  articulations?: Articulation[];
+  startCellInBar: number;
+  cells: number; // duration in cells (to the next chord or the barline)
+  beats: number; // duration in written beats (cells / subdivision)
+};
+
+/**
+ * One row of a section's bar table: where the bar sits on the cell timeline and
+ * which meter it is in. Bar lengths vary with meter changes.
+ */
+export type BarInfo = {
+  barIndex: number; // position in the table (0-based; keys navigation / meter changes)
+  number: number; // printed bar number: a pickup is bar 0, the first full bar is bar 1
+  pickup: boolean;
+  startCell: number;
+  cells: number;
+  timeSignature: TimeSignature;
+  meterChanged: boolean; // first bar, or meter differs from the previous bar
+};
+
+export type BarModel = BarInfo & {
+  segments: Segment[];
+  navigation?: BarNavigation;
+  heldKind?: ChordEventKind; // a rest / N.C. still in effect at the downbeat (absent = a chord, or nothing yet)
+};
+
+export function barCellsFor(timeSignature: TimeSignature, subdivision: number) {
+  return Math.max(1, timeSignature.beatsPerBar) * Math.max(1, subdivision);
+}
+
+/**
+ * Cells taken by a pickup of `pickupBeats` (0 = no pickup). Rounded to whole cells,
+ * so a half-beat pickup needs subdivision >= 2 to land exactly on the "and".
+ */
+export function pickupCellsFor(pickupBeats: number | undefined, subdivision: number) {
+  if (!pickupBeats || !Number.isFinite(pickupBeats) || pickupBeats <= 0) return 0;
+  return Math.max(1, Math.round(pickupBeats * Math.max(1, subdivision)));
+}
+
+/**
+ * Effective meter of a bar: the latest change at or before it, else the doc meter.
+ */
+export function meterAtBar(
+  barIndex: number,
+  timeSignature: TimeSignature,
+  meterChanges: MeterChange[] = []
+): TimeSignature {
+  let ts = timeSignature;
+  let best = -1;
+  for (const m of meterChanges) {
+    if (m.barIndex <= barIndex && m.barIndex > best) {
+      best = m.barIndex;
+      ts = m.timeSignature;
+    }
+  }
+  return ts;
+}
+
+/**
+ * Build the bar table for a section. Bars are added until every cell up to
+ * `lastCell` is covered (at least `minBars`, default 1).
+ *
+ * With a pickup, bar 0 is the short pickup bar (cells [0, pickupCells)) and the
+ * first full bar starts right after it, so the timeline never needs negative cells.
+ */
+export function buildBarTable(args: {
+  timeSignature: TimeSignature;
+  subdivision: number;
+  meterChanges?: MeterChange[];
+  pickupBeats?: number;
+  lastCell?: number;
+  minBars?: number;
+}): BarInfo[] {
+  const { timeSignature, subdivision, meterChanges = [], lastCell = 0 } = args;
+  const pickupCells = pickupCellsFor(args.pickupBeats, subdivision);
+  const hasPickup = pickupCells > 0;
+  const minBars = (args.minBars ?? 1) + (hasPickup ? 1 : 0);
+
+  const out: BarInfo[] = [];
+  let startCell = 0;
+  let prev: TimeSignature | null = null;
+
+  // Hard cap guards against a bogus lastCell (NaN/huge) freezing the editor.
+  for (let barIndex = 0; barIndex < 2000; barIndex++) {
+    if (barIndex >= minBars && startCell > lastCell) break;
+
+    const ts = meterAtBar(barIndex, timeSignature, meterChanges);
+    const pickup = hasPickup && barIndex === 0;
+    const cells = pickup ? pickupCells : barCellsFor(ts, subdivision);
+    const meterChanged =
+      !prev || prev.beatsPerBar !== ts.beatsPerBar || prev.beatUnit !== ts.beatUnit;
+
+    out.push({
+      barIndex,
+      number: hasPickup ? barIndex : barIndex + 1,
+      pickup,
+      startCell,
+      cells,
+      timeSignature: ts,
+      meterChanged,
+    });
+
+    startCell += cells;
+    prev = ts;
+  }
+
+  return out;
+}
+
+/**
+ * Bar containing `cell` (cells past the end fall in the last bar).
+ */
+export function barAtCell(table: BarInfo[], cell: number): BarInfo | undefined {
+  let found: BarInfo | undefined = table[0];
+  for (const bar of table) {
+    if (bar.startCell <= cell) found = bar;
+    else break;
+  }
+  return found;
+}
+
+/**
+ * Latest position among chords and/or lyric anchors (0 when there are none).
+ */
+export function lastEventCell(events: GridPos[]) {
+  let lastCell = 0;
+  for (const e of events) {
+    const pos = posOf(e);
+    if (Number.isFinite(pos) && pos > lastCell) lastCell = pos;
+  }
+  return lastCell;
+}
+
+/**
+ * Bar table for a section, in the doc meter plus the section's meter changes.
+ * It has at least `barCount` full bars and grows to fit the last chord or anchor,
+ * so lyrics sung after the final chord change still get bars under them.
+ */
+export function sectionBarTable(args: {
+  chords: ChordEvent[];
+  anchors?: GridPos[];
+  timeSignature: TimeSignature;
+  subdivision: number;
+  meterChanges?: MeterChange[];
+  pickupBeats?: number;
+  barCount?: number;
+}): BarInfo[] {
+  const { chords, anchors = [], barCount, ...rest } = args;
+  return buildBarTable({
+    ...rest,
+    lastCell: lastEventCell([...chords, ...anchors]),
+    minBars: barCount,
+  });
+}
+
+/**
+ * Full bars in a table (the pickup bar is not counted).
+ */
+export function fullBarCount(table: BarInfo[]) {
+  return table.filter((b) => !b.pickup).length;
+}
+
+/**
+ * Split the chord timeline into bars. Each chord becomes a segment that lasts
+ * until the next chord or the end of its bar (chords never ring across a barline
+ * visually; the next bar simply starts empty). N.C. and rests are segments too, so
+ * they cut the chord before them short.
+ */
+export function buildBars(args: {
+  chords: ChordEvent[];
+  table: BarInfo[];
+  subdivision: number;
+  navigation?: BarNavigation[];
+}): BarModel[] {
+  const { chords, table, subdivision, navigation = [] } = args;
+
+  const sorted = chords
+    .map((c) => ({ id: c.id, symbol: c.symbol, kind: c.kind, articulations: c.articulations, pos: posOf(c) }))
+    .filter((c) => Number.isFinite(c.pos) && c.pos >= 0)
+    .sort((a, b) => a.pos - b.pos);
+
+  const navByBar = new Map<number, BarNavigation>();
+  for (const n of navigation) navByBar.set(n.barIndex, n);
+
+  return table.map((bar) => {
+    const barStart = bar.startCell;
+    const barEnd = barStart + bar.cells;
+
+    const inBar = sorted.filter((c) => c.pos >= barStart && c.pos < barEnd);
+
+    const segments: Segment[] = inBar.map((c, i) => {
+      const start = c.pos;
+      const nextStart = i + 1 < inBar.length ? inBar[i + 1].pos : barEnd;
+      const durCells = Math.max(0, Math.min(nextStart, barEnd) - start);
+      const beats = durCells / subdivision;
+      return {
+        id: c.id,
+        symbol: c.symbol,
+        kind: c.kind,
+        articulations: c.articulations,
+        startCellInBar: start - barStart,
+        cells: durCells,
+        beats,
+      };
+    });
+
+    const held = sorted.filter((c) => c.pos < barStart).pop();
+    return { ...bar, segments, navigation: navByBar.get(bar.barIndex), heldKind: held?.kind };
+  });
+}
+
+/**
+ * Add, replace or clear (when equal to the meter already in effect) a meter change.
+ */
+export function setMeterChange(args: {
+  meterChanges: MeterChange[] | undefined;
+  barIndex: number;
+  timeSignature: TimeSignature;
+  docTimeSignature: TimeSignature;
+}): MeterChange[] {
+  const { barIndex, timeSignature, docTimeSignature } = args;
+  const rest = (args.meterChanges ?? []).filter((m) => m.barIndex !== barIndex);
+
+  const inherited = meterAtBar(barIndex - 1, docTimeSignature, rest);
+  const same =
+    inherited.beatsPerBar === timeSignature.beatsPerBar &&
+    inherited.beatUnit === timeSignature.beatUnit;
+  if (same) return rest;
+
+  return [...rest, { barIndex, timeSignature }].sort((a, b) => a.barIndex - b.barIndex);
+}
@@ -0,0 +1,109 @@
+// src/lib/capo.ts
+import type { ChordEvent } from "./types";
+import { parseChordSymbol } from "./chords/parse";
+import { formatNote } from "./chords/format";
+import type { SpellingMode } from "./chords/spelling";
+import { formatKey, parentMajor, parseKey, transposeKey } from "./keys";
+import { transposeChordEvents, transposeChordSymbol, type Transposition } from "./transpose";
+
+export const MAX_CAPO = 11;
+
+export type CapoSuggestion = {
+  capo: number; // fret (0 = no capo)
+  shapeKey: string; // the key the shapes are in
+  openShapes: number; // chords (of `total`) that become open-position shapes
+  total: number;
+};
+
+// Open-position guitar shapes by chord family (roots as written).
+const OPEN_SHAPES: Record<"major" | "minor" | "dominant" | "majorSeventh" | "sus", string[]> = {
+  major: ["C", "A", "G", "E", "D"],
+  minor: ["A", "E", "D"],
+  dominant: ["C", "A", "G", "E", "D", "B"],
+  majorSeventh: ["C", "A", "G", "E", "D", "F"],
+  sus: ["A", "D", "E"],
+};
+
+/**
+ * Key of the shapes played with a capo on `capo` (Bb, capo 3 → G). Shape keys
+ * prefer sharp names, the way guitarists think of them.
+ */
+export function capoShapeKey(soundingKey: string, capo: number) {
+  return capo ? transposeKey(soundingKey, -capo, "sharps") : soundingKey;
+}
+
+export function capoTransposition(soundingKey: string, capo: number, spelling?: SpellingMode): Transposition {
+  return { fromKey: soundingKey, toKey: capoShapeKey(soundingKey, capo), spelling };
+}
+
+/**
+ * Chords (already in the sounding key) as the shapes to play with the capo.
+ */
+export function capoChordEvents(
+  chords: ChordEvent[],
+  soundingKey: string,
+  capo: number,
+  spelling?: SpellingMode
+): ChordEvent[] {
+  return capo ? transposeChordEvents(chords, capoTransposition(soundingKey, capo, spelling)) : chords;
+}
+
+function isOpenShape(symbol: string) {
+  const parsed = parseChordSymbol(symbol);
+  if (!parsed.ok || parsed.chord.kind !== "chord") return false;
+
+  const c = parsed.chord;
+  if (c.alterations.length || c.altered) return false;
+
+  const root = formatNote(c.root);
+  const family = c.suspension
+    ? "sus"
+    : c.quality === "minor"
+    ? "minor"
+    : c.quality !== "major"
+    ? null
+    : c.majorSeventh
+    ? "majorSeventh"
+    : c.extension !== undefined && c.extension >= 7
+    ? "dominant"
+    : "major";
+  return family ? OPEN_SHAPES[family].includes(root) : false;
+}
+
+/**
+ * I, IV, V and vi of the key (i, iv, V, VI, VII in minor), for songs without chords yet.
+ */
+function primaryChords(key: string) {
+  const k = parseKey(key);
+  if (!k) return [];
+  if (k.mode === "minor") {
+    return ["Am", "Dm", "E", "F", "G"].map((s) => transposeChordSymbol(s, { fromKey: "Am", toKey: key }));
+  }
+  const parent = formatKey({ tonic: parentMajor(k), mode: "major" });
+  return ["C", "F", "G", "Am"].map((s) => transposeChordSymbol(s, { fromKey: "C", toKey: parent }));
+}
+
+/**
+ * Capo positions (up to fret 7) ranked by how many of the song's chords become
+ * open shapes; ties go to the lower fret. `symbols` are in the sounding key; with
+ * none, the key's primary chords are used.
+ */
+export function suggestCapos(args: {
+  soundingKey: string;
+  symbols: string[];
+  spelling?: SpellingMode;
+  limit?: number;
+}): CapoSuggestion[] {
+  const { soundingKey, spelling, limit = 3 } = args;
+  const symbols = args.symbols.length ? args.symbols : primaryChords(soundingKey);
+  if (!symbols.length) return [];
+
+  const out: CapoSuggestion[] = [];
+  for (let capo = 0; capo <= 7; capo++) {
+    const t = capoTransposition(soundingKey, capo, spelling);
+    const openShapes = symbols.filter((s) => isOpenShape(capo ? transposeChordSymbol(s, t) : s)).length;
+    out.push({ capo, shapeKey: t.toKey, openShapes, total: symbols.length });
+  }
+
+  return out.sort((a, b) => b.openShapes - a.openShapes || a.capo - b.capo).slice(0, limit);
+}
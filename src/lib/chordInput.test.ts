@@ -0,0 +1,84 @@
+// src/lib/chordInput.test.ts
+import { describe, expect, it } from "vitest";
+import type { ChordEvent } from "./types";
+import { formatChordInput, parseChordInput, type ChordInputContext } from "./chordInput";
+
+const FOUR_FOUR: ChordInputContext = { timeSignature: { beatsPerBar: 4, beatUnit: 4 }, subdivision: 2 };
+
+function parse(input: string, ctx = FOUR_FOUR) {
+  const result = parseChordInput(input, ctx);
+  if (!result.ok) throw new Error(`"${input}": ${result.error.message}`);
+  return result.chords;
+}
+
+// Ids are generated on every parse; compare what the grid stores.
+function stored(chords: ChordEvent[]) {
+  return chords.map((c) => ({ ...c, id: undefined }));
+}
+
+function expectRoundTrip(chords: ChordEvent[], ctx = FOUR_FOUR) {
+  const text = formatChordInput(chords, ctx);
+  expect(stored(parse(text, ctx))).toEqual(stored(chords));
+  expect(formatChordInput(parse(text, ctx), ctx)).toBe(text);
+}
+
+describe("parseChordInput", () => {
+  it("places bare chords a bar each and durations in beats", () => {
+    expect(stored(parse("G C:2 D:2"))).toEqual([
+      { cell: 0, symbol: "G" },
+      { cell: 8, symbol: "C" },
+      { cell: 12, symbol: "D" },
+    ]);
+  });
+
+  it("expands repeat groups", () => {
+    expect(parse("(G C):x2").map((c) => [c.cell, c.symbol])).toEqual([
+      [0, "G"],
+      [8, "C"],
+      [16, "G"],
+      [24, "C"],
+    ]);
+  });
+
+  it("reads rests, no-chords and marks", () => {
+    expect(stored(parse("G{>.}:2 X:1 N.C.:1"))).toEqual([
+      { cell: 0, symbol: "G", articulations: ["accent", "staccato"] },
+      { cell: 4, symbol: "", kind: "rest" },
+      { cell: 6, symbol: "N.C.", kind: "noChord" },
+    ]);
+  });
+
+  it("rejects a barline the beats before it don't reach", () => {
+    expect(parseChordInput("G:2 | C |", FOUR_FOUR).ok).toBe(false);
+  });
+
+  it("reports an unknown chord over the whole word", () => {
+    const result = parseChordInput("G foo:2", FOUR_FOUR);
+    expect(result.ok).toBe(false);
+    if (!result.ok) expect([result.error.start, result.error.end]).toEqual([2, 7]);
+  });
+});
+
+describe("formatChordInput", () => {
+  it("round-trips chords on the grid", () => {
+    expectRoundTrip(parse("G:2 C:2 D Em:3 X:1"));
+  });
+
+  it("round-trips a lead-in, tuplet offsets and marks", () => {
+    expectRoundTrip(parse("~:1 G{<}:1/3 A:2/3 C{U}:2 N.C.:1 D"));
+  });
+
+  it("round-trips pickups and meter changes", () => {
+    const ctx: ChordInputContext = {
+      ...FOUR_FOUR,
+      pickupBeats: 1,
+      meterChanges: [{ barIndex: 2, timeSignature: { beatsPerBar: 3, beatUnit: 4 } }],
+    };
+    expectRoundTrip(parse("D G C:3 F", ctx), ctx);
+  });
+
+  it("round-trips compound meters counted in dotted beats", () => {
+    const ctx: ChordInputContext = { timeSignature: { beatsPerBar: 6, beatUnit: 8 }, subdivision: 2 };
+    expectRoundTrip(parse("G:1 C:1 D:1/2 Em:3/2", ctx), ctx);
+  });
+});
@@ -1,45 +1,413 @@
-import type { ChordEvent } from "./types";
+// src/lib/chordInput.ts
+import type { Articulation, ChordEvent, ChordEventKind, MeterChange, TimeSignature } from "./types";
+import { barAtCell, buildBarTable, sectionBarTable, type BarInfo } from "./bars";
+import { pulseCells } from "./meter";
+import { comparePos, gridPos, samePos, type GridPos } from "./timeline";
+import { parseChordSymbol, type ChordParseError } from "./chords/parse";
+import { formatChord, NO_CHORD_TEXT } from "./chords/format";
+import { ARTICULATIONS, articulationFromMark, articulationMarks, sortArticulations } from "./articulations";
+
+export type ChordInputContext = {
+  timeSignature: TimeSignature;
+  subdivision: number;
+  meterChanges?: MeterChange[];
+  pickupBeats?: number;
+};
+
+/**
+ * Draft context for a section in a document.
+ */
+export function chordInputContext(
+  doc: Pick<ChordInputContext, "timeSignature" | "subdivision">,
+  section: Pick<ChordInputContext, "meterChanges" | "pickupBeats">
+): ChordInputContext {
+  return {
+    timeSignature: doc.timeSignature,
+    subdivision: doc.subdivision,
+    meterChanges: section.meterChanges,
+    pickupBeats: section.pickupBeats,
+  };
+}
+
+export type ChordInputResult = { ok: true; chords: ChordEvent[] } | { ok: false; error: ChordParseError };
+
+// Exact number of cells (num / den, den > 0), so thirds of a beat don't drift.
+type Frac = { n: number; d: number };
+
+function gcd(a: number, b: number): number {
+  a = Math.abs(a);
+  b = Math.abs(b);
+  while (b) [a, b] = [b, a % b];
+  return a || 1;
+}
+
+function frac(n: number, d = 1): Frac {
+  const g = gcd(n, d);
+  return d < 0 ? { n: -n / g, d: -d / g } : { n: n / g, d: d / g };
+}
+
+const add = (a: Frac, b: Frac) => frac(a.n * b.d + b.n * a.d, a.d * b.d);
+const sub = (a: Frac, b: Frac) => frac(a.n * b.d - b.n * a.d, a.d * b.d);
+const mul = (a: Frac, b: Frac) => frac(a.n * b.n, a.d * b.d);
+const div = (a: Frac, b: Frac) => frac(a.n * b.d, a.d * b.n);
+const cmp = (a: Frac, b: Frac) => a.n * b.d - b.n * a.d;
+const ZERO = frac(0);
+const posFrac = (p: GridPos) => (p.offset ? frac(p.cell * p.offset.den + p.offset.num, p.offset.den) : frac(p.cell));
+
+type Node =
+  // null symbol = skipped time (no event)
+  | {
+      kind: "chord";
+      symbol: string | null;
+      event?: ChordEventKind;
+      articulations?: Articulation[];
+      beats?: Frac;
+      start: number;
+      end: number;
+    }
+  | { kind: "bar"; start: number; end: number }
+  | { kind: "group"; body: Node[]; times: number; start: number; end: number };
+
+// Thrown while parsing/placing; becomes the `error` of the result.
+class InputError extends Error {
+  start: number;
+  end: number;
+
+  constructor(message: string, start: number, end: number) {
+    super(message);
+    this.start = start;
+    this.end = end;
+  }
+}
+
+const DURATION = /^(\d+)(?:\.(\d+)|\/(\d+))?$/;
+const REPEAT = /^:?[x×](\d+)/;
+
+/**
+ * Beats as an exact fraction ("1.5" → 3/2, "1/3" → 1/3).
+ */
+function parseBeats(text: string): Frac | null {
+  const m = text.match(DURATION);
+  if (!m) return null;
+  const [, whole, decimals, den] = m;
+  if (den !== undefined) return Number(den) > 0 ? frac(Number(whole), Number(den)) : null;
+  return frac(Number(whole + (decimals ?? "")), 10 ** (decimals ?? "").length);
+}
+
+/**
+ * Beats as the draft writes them: whole or short decimal when exact, else a fraction.
+ */
+function formatBeats(beats: Frac): string {
+  if (beats.d === 1) return String(beats.n);
+
+  let rest = beats.d;
+  for (const p of [2, 5]) while (rest % p === 0) rest /= p;
+  if (rest === 1) {
+    const decimal = String(beats.n / beats.d);
+    if (decimal.length <= 6) return decimal;
+  }
+  return `${beats.n}/${beats.d}`;
+}
+
+/**
+ * `{>.}` after a symbol: one mark per articulation (see ARTICULATIONS).
+ */
+function parseMarks(text: string, start: number): Articulation[] {
+  const out: Articulation[] = [];
+  for (let i = 0; i < text.length; i++) {
+    const articulation = articulationFromMark(text[i]);
+    if (!articulation) {
+      const marks = ARTICULATIONS.map((a) => a.mark).join(" ");
+      throw new InputError(`Unknown mark (use ${marks})`, start + i, start + i + 1);
+    }
+    out.push(articulation);
+  }
+  return sortArticulations(out);
+}
+
+/**
+ * One chord word: `SYMBOL`, `SYMBOL:beats`, `N.C.`, `X:beats` (rest) or `~:beats`
+ * (nothing: the time before the first chord). Marks go after the symbol: `G{>.}:1`.
+ */
+function parseWord(word: string, start: number): Node {
+  const colon = word.lastIndexOf(":");
+  let symbolText = colon >= 0 ? word.slice(0, colon) : word;
+  const durationText = colon >= 0 ? word.slice(colon + 1) : null;
+  const end = start + word.length;
+
+  let beats: Frac | undefined;
+  if (durationText !== null) {
+    const parsed = parseBeats(durationText);
+    if (!parsed || parsed.n <= 0) {
+      throw new InputError("Expected a duration in beats (2, 1.5)", start + colon + 1, end);
+    }
+    beats = parsed;
+  }
+
+  let articulations: Articulation[] | undefined;
+  const brace = symbolText.indexOf("{");
+  if (brace >= 0) {
+    if (!symbolText.endsWith("}")) {
+      throw new InputError("Expected '}' after the marks", start + brace, start + symbolText.length);
+    }
+    articulations = parseMarks(symbolText.slice(brace + 1, -1), start + brace + 1);
+    if (!articulations.length) articulations = undefined;
+    symbolText = symbolText.slice(0, brace);
+  }
+
+  if (!symbolText) throw new InputError("Expected a chord before ':'", start, start + 1);
+  if (symbolText === "~") {
+    if (articulations) throw new InputError("Marks need a chord or a rest", start, end);
+    return { kind: "chord", symbol: null, beats, start, end };
+  }
+  if (symbolText === "X" || symbolText === "x") {
+    return { kind: "chord", symbol: "", event: "rest", articulations, beats, start, end };
+  }
+
+  const parsed = parseChordSymbol(symbolText);
+  if (!parsed.ok) throw new InputError(parsed.error.message, start, end);
+  const event = parsed.chord.kind === "noChord" ? "noChord" : undefined;
+  return { kind: "chord", symbol: formatChord(parsed.chord), event, articulations, beats, start, end };
+}
 
 /**
- * Parses input like:
- *   G:2 A:1 B:1
- * into chord events on a cell timeline.
- *
- * subdivision = cells per beat
- *
- * Special:
- *   X:n (or x:n) = rest for n beats (advances timeline, no chord event)
+ * Tokens → nodes. Parentheses at the start of a word open a repeat group; inside a
+ * word they belong to the chord ("C7(#9)").
  */
-export function parseChordInput(input: string, subdivision: number): ChordEvent[] {
-  const tokens = input
-    .trim()
-    .split(/\s+/)
-    .filter(Boolean);
+function parseNodes(input: string): Node[] {
+  let i = 0;
+
+  function sequence(open: number | null): { nodes: Node[]; end: number } {
+    const nodes: Node[] = [];
+
+    while (i < input.length) {
+      const ch = input[i];
 
-  let cellCursor = 0;
+      if (/\s/.test(ch)) {
+        i++;
+        continue;
+      }
+      if (ch === "|") {
+        nodes.push({ kind: "bar", start: i, end: i + 1 });
+        i++;
+        continue;
+      }
+      if (ch === "(") {
+        const start = i;
+        i++;
+        const { nodes: body } = sequence(start);
+        const repeat = input.slice(i).match(REPEAT);
+        const times = repeat ? Number(repeat[1]) : 1;
+        if (repeat) i += repeat[0].length;
+        if (times < 1) throw new InputError("Repeat count must be at least 1", start, i);
+        nodes.push({ kind: "group", body, times, start, end: i });
+        continue;
+      }
+      if (ch === ")") {
+        if (open === null) throw new InputError("Unmatched ')'", i, i + 1);
+        i++;
+        return { nodes, end: i };
+      }
+
+      const start = i;
+      let depth = 0;
+      while (i < input.length && !/\s/.test(input[i]) && input[i] !== "|") {
+        if (input[i] === "(") depth++;
+        else if (input[i] === ")") {
+          if (depth === 0) break;
+          depth--;
+        }
+        i++;
+      }
+      nodes.push(parseWord(input.slice(start, i), start));
+    }
+
+    if (open !== null) throw new InputError("Unclosed '('", open, open + 1);
+    return { nodes, end: i };
+  }
+
+  return sequence(null).nodes;
+}
+
+/**
+ * Parses the chord draft into chord events on the section's cell timeline:
+ *   G:2 A:1 B:1        durations in counted beats (dotted quarters in 6/8, see pulseCells)
+ *   G:1.5 D:1/3        fractional beats (placed exactly, between cells if needed)
+ *   | G | C D |        barlines: chords without a duration share what's left of the bar
+ *   G C N.C.           outside barlines a chord without a duration lasts to the next
+ *                      barline (a whole bar from a downbeat)
+ *   (G C):x4           repeat group (may contain barlines); | (G C):x4 | splits one bar
+ *   X:2 / N.C.         a rest / "N.C." (both end the chord before them)
+ *   ~:1                nothing (a lead-in before the first chord)
+ *   G{>}:1 C{.<} D{U}  marks: > accent, . stop, < push, U fermata, _ tie
+ * Malformed input is an error with the offending token's position, not dropped.
+ */
+export function parseChordInput(input: string, ctx: ChordInputContext): ChordInputResult {
+  const cellsPerBeat = frac(pulseCells(ctx.timeSignature, Math.max(1, ctx.subdivision)));
   const events: ChordEvent[] = [];
+  let cursor = ZERO;
 
-  for (const token of tokens) {
-    const [rawSymbol, beatsStr] = token.split(":");
-    if (!rawSymbol || !beatsStr) continue;
+  let table: BarInfo[] = [];
+  function barAround(at: Frac) {
+    const cell = Math.floor(at.n / at.d);
+    if (!table.length || table[table.length - 1].startCell <= cell) {
+      table = buildBarTable({ ...ctx, subdivision: Math.max(1, ctx.subdivision), lastCell: cell + 1 });
+    }
+    return table.find((b) => cmp(at, frac(b.startCell + b.cells)) < 0) ?? table[table.length - 1];
+  }
+  const barEnd = (at: Frac) => {
+    const bar = barAround(at);
+    return frac(bar.startCell + bar.cells);
+  };
+  const onBarline = (at: Frac) => at.d === 1 && barAround(at).startCell === at.n;
 
-    const symbol = rawSymbol.trim();
-    const beats = Number(beatsStr);
+  const length = (node: Extract<Node, { kind: "chord" }>, share: Frac | null): Frac => {
+    if (node.beats) return mul(node.beats, cellsPerBeat);
+    return share ?? sub(barEnd(cursor), cursor);
+  };
 
-    if (!Number.isFinite(beats) || beats <= 0) continue;
+  // A barline must come where the bar ends: written beats are never dropped.
+  function checkBarline(bar: Node) {
+    if (onBarline(cursor)) return;
+    const info = barAround(cursor);
+    const written = div(sub(cursor, frac(info.startCell)), cellsPerBeat);
+    const total = div(frac(info.cells), cellsPerBeat);
+    throw new InputError(
+      `The beats before this barline don't fill the bar (${formatBeats(written)} of ${formatBeats(total)})`,
+      bar.start,
+      bar.end
+    );
+  }
 
-    const isRest = symbol.toLowerCase() === "x";
+  // Fixed length and number of chords without a duration (groups count every pass).
+  function measure(nodes: Node[]): { fixed: Frac; open: number } {
+    let fixed = ZERO;
+    let open = 0;
+    for (const node of nodes) {
+      if (node.kind === "bar") {
+        throw new InputError("A repeat group with barlines can't sit inside a bar", node.start, node.end);
+      }
+      if (node.kind === "group") {
+        const inner = measure(node.body);
+        fixed = add(fixed, mul(inner.fixed, frac(node.times)));
+        open += inner.open * node.times;
+      } else if (node.beats) {
+        fixed = add(fixed, mul(node.beats, cellsPerBeat));
+      } else {
+        open++;
+      }
+    }
+    return { fixed, open };
+  }
 
-    if (!isRest) {
+  function play(node: Node, share: Frac | null) {
+    if (node.kind === "group") {
+      for (let pass = 0; pass < node.times; pass++) run(node.body, share);
+      return;
+    }
+    if (node.kind === "bar") return;
+
+    if (node.symbol !== null) {
       events.push({
         id: crypto.randomUUID(),
-        symbol,
-        cell: cellCursor,
+        symbol: node.symbol,
+        ...(node.event ? { kind: node.event } : {}),
+        ...(node.articulations ? { articulations: node.articulations } : {}),
+        ...gridPos(0, cursor.n, cursor.d),
       });
     }
+    cursor = add(cursor, length(node, share));
+  }
 
-    cellCursor += beats * subdivision;
+  function fillBar(items: Node[], bar: Node) {
+    if (!items.length) {
+      cursor = barEnd(cursor); // "| |": a bar with nothing in it
+      return;
+    }
+
+    const room = sub(barEnd(cursor), cursor);
+    const { fixed, open } = measure(items);
+    const first = items[0];
+    const last = items[items.length - 1];
+
+    if (cmp(fixed, room) > 0) {
+      throw new InputError("Too many beats for this bar", first.start, last.end);
+    }
+    const share = open ? div(sub(room, fixed), frac(open)) : null;
+    if (share && share.n === 0) {
+      throw new InputError("No room left in the bar for this chord", bar.start, last.end);
+    }
+    for (const node of items) play(node, share);
+  }
+
+  // Split at barlines: what comes before the first one is free-running; every
+  // barline starts a bar (the final one only closes the bar before it).
+  function run(nodes: Node[], share: Frac | null) {
+    const bars = nodes.filter((n) => n.kind === "bar");
+    let items: Node[] = [];
+    let bar: Node | null = null;
+
+    for (const node of nodes) {
+      if (node.kind !== "bar") {
+        items.push(node);
+        continue;
+      }
+      if (bar) fillBar(items, bar);
+      else for (const item of items) play(item, share);
+      checkBarline(node);
+      items = [];
+      bar = node;
+    }
+
+    if (bar && items.length) fillBar(items, bar);
+    else if (!bars.length) for (const item of items) play(item, share);
+  }
+
+  try {
+    run(parseNodes(input), null);
+    return { ok: true, chords: events };
+  } catch (e) {
+    if (e instanceof InputError) return { ok: false, error: { message: e.message, start: e.start, end: e.end } };
+    throw e;
   }
+}
+
+/**
+ * Canonical draft text for a section's chords, the inverse of `parseChordInput`:
+ * exact durations (`G:1/3` when a chord sits between cells), `~` for the lead-in
+ * and the last chord running to the end of its bar. Of several chords on the same
+ * position the later one wins, as it does on the grid.
+ */
+export function formatChordInput(chords: ChordEvent[], ctx: ChordInputContext): string {
+  if (!chords.length) return "";
+
+  const subdivision = Math.max(1, ctx.subdivision);
+  const cellsPerBeat = frac(pulseCells(ctx.timeSignature, subdivision));
+  const table = sectionBarTable({ ...ctx, subdivision, chords });
+
+  const unique: ChordEvent[] = [];
+  for (const c of [...chords].sort(comparePos)) {
+    const prev = unique[unique.length - 1];
+    if (prev && samePos(prev, c)) unique[unique.length - 1] = c;
+    else unique.push(c);
+  }
+
+  const parts: string[] = [];
+  const first = posFrac(unique[0]);
+  if (first.n > 0) parts.push(`~:${formatBeats(div(first, cellsPerBeat))}`);
+
+  unique.forEach((cur, i) => {
+    const at = posFrac(cur);
+    const next = unique[i + 1];
+    let end: Frac;
+    if (next) end = posFrac(next);
+    else {
+      const bar = barAtCell(table, Math.floor(at.n / at.d));
+      end = bar ? frac(bar.startCell + bar.cells) : add(at, cellsPerBeat);
+    }
+    const word = cur.kind === "rest" ? "X" : cur.kind === "noChord" ? NO_CHORD_TEXT : cur.symbol;
+    parts.push(`${word}${articulationMarks(cur.articulations)}:${formatBeats(div(sub(end, at), cellsPerBeat))}`);
+  });
 
-  return events;
+  return parts.join(" ");
 }
@@ -0,0 +1,247 @@
+// src/lib/chords/analysis.ts
+import type { ChordEvent } from "../types";
+import { MODE_SCALES, parseKey, type MusicalKey } from "../keys";
+import { comparePos } from "../timeline";
+import { parseChordSymbol, type ChordSymbol, type NoteLetter } from "./parse";
+import { noteToPc } from "./spelling";
+
+export type ParsedChord = Extract<ChordSymbol, { kind: "chord" }>;
+
+/**
+ * diatonic:     built from the key's scale (harmonic minor's V and vii° count in minor)
+ * secondary:    dominant or leading-tone chord of a diatonic degree that resolves to it (V7/ii)
+ * tonicization: the ii of a secondary dominant's target, approached as ii–V (ii/V before V/V)
+ * borrowed:     diatonic in the parallel major/minor (bVI, iv, bVII in major)
+ * chromatic:    none of the above; flagged as non-diatonic
+ */
+export type AnalysisKind = "diatonic" | "secondary" | "tonicization" | "borrowed" | "chromatic";
+
+export type RomanAnalysis = {
+  numeral: string;
+  kind: AnalysisKind;
+};
+
+const LETTERS: NoteLetter[] = ["C", "D", "E", "F", "G", "A", "B"];
+const NUMERALS = ["I", "II", "III", "IV", "V", "VI", "VII"];
+
+function mod(n: number, m: number) {
+  return ((n % m) + m) % m;
+}
+
+/**
+ * Chord tones as semitones above the root (upper extensions are left out: they
+ * colour a chord but don't change its function).
+ */
+export function chordTones(c: ParsedChord): number[] {
+  const base: Record<ParsedChord["quality"], number[]> = {
+    major: [0, 4, 7],
+    minor: [0, 3, 7],
+    diminished: [0, 3, 6],
+    augmented: [0, 4, 8],
+    halfDiminished: [0, 3, 6, 10],
+    power: [0, 7],
+  };
+  let tones = [...base[c.quality]];
+
+  if (c.suspension) tones = tones.map((t) => (t === 3 || t === 4 ? (c.suspension === 2 ? 2 : 5) : t));
+  for (const a of c.alterations) {
+    if (a.degree === 5) tones = tones.map((t) => (t === 7 ? (a.accidental === "#" ? 8 : 6) : t));
+  }
+
+  if (c.extension !== undefined && c.quality !== "halfDiminished") {
+    if (c.extension === 6) tones.push(9);
+    else if (c.majorSeventh) tones.push(11);
+    else if (c.quality === "diminished") tones.push(9);
+    else tones.push(10);
+  }
+  return tones;
+}
+
+function isDominantShape(c: ParsedChord) {
+  if (c.quality !== "major" || c.majorSeventh || c.suspension) return false;
+  return c.extension === undefined || c.extension >= 7;
+}
+
+function isLeadingToneShape(c: ParsedChord) {
+  return c.quality === "diminished" || isHalfDiminished(c);
+}
+
+function scaleOf(key: MusicalKey, harmonicMinor = false) {
+  const tonicPc = noteToPc(key.tonic);
+  const scale = MODE_SCALES[key.mode].map((i) => mod(tonicPc + i, 12));
+  if (harmonicMinor && key.mode === "minor") scale[6] = mod(tonicPc + 11, 12);
+  return scale;
+}
+
+function fitsScale(c: ParsedChord, scale: number[]) {
+  const root = noteToPc(c.root);
+  return chordTones(c).every((t) => scale.includes(mod(root + t, 12)));
+}
+
+// In minor, chords from either the natural or the harmonic minor scale count.
+function fitsKey(c: ParsedChord, key: MusicalKey) {
+  return fitsScale(c, scaleOf(key)) || fitsScale(c, scaleOf(key, true));
+}
+
+/**
+ * Roman numeral for the chord's root and quality relative to `key`: case from the
+ * third, b/# where the root is off the key's scale, figures for inversions.
+ */
+function numeralFor(c: ParsedChord, key: MusicalKey) {
+  const steps = mod(LETTERS.indexOf(c.root.letter) - LETTERS.indexOf(key.tonic.letter), 7);
+  const scale = MODE_SCALES[key.mode];
+  const diff = mod(noteToPc(c.root) - noteToPc(key.tonic) - scale[steps] + 6, 12) - 6;
+  const prefix = (diff > 0 ? "#" : "b").repeat(Math.abs(diff));
+
+  return `${prefix}${caseFor(NUMERALS[steps], c)}${figuredMark(c)}`;
+}
+
+function caseFor(numeral: string, c: ParsedChord) {
+  return c.quality === "minor" || c.quality === "diminished" || c.quality === "halfDiminished"
+    ? numeral.toLowerCase()
+    : numeral;
+}
+
+function isHalfDiminished(c: ParsedChord) {
+  if (c.quality === "halfDiminished") return true;
+  const flatFive = c.alterations.some((a) => a.degree === 5 && a.accidental === "b");
+  return c.quality === "minor" && flatFive && c.extension === 7 && !c.majorSeventh;
+}
+
+function qualityMark(c: ParsedChord) {
+  const seventh = c.extension !== undefined && c.extension !== 6;
+  if (isHalfDiminished(c)) return "ø7";
+  if (c.quality === "diminished") return seventh ? "°7" : "°";
+  if (c.quality === "augmented") return "+";
+  if (c.extension === 6) return "6";
+  if (seventh) return c.majorSeventh ? "maj7" : "7";
+  return "";
+}
+
+function inversionFigure(c: ParsedChord) {
+  if (!c.bass) return "";
+  const interval = mod(noteToPc(c.bass) - noteToPc(c.root), 12);
+  const tones = chordTones(c);
+  const seventh = tones.length > 3;
+  const position = tones.indexOf(interval); // 1 = third in the bass, 2 = fifth, 3 = seventh
+  if (position === 1) return seventh ? "65" : "6";
+  if (position === 2) return seventh ? "43" : "64";
+  if (position === 3) return "42";
+  return "";
+}
+
+/**
+ * Quality mark plus inversion figure; an inverted seventh chord's figure replaces
+ * the 7 (V7 → V65, viiø7 → viiø42).
+ */
+function figuredMark(c: ParsedChord) {
+  const mark = qualityMark(c);
+  const figure = inversionFigure(c);
+  if (figure && figure !== "6" && figure !== "64" && mark.endsWith("7")) return `${mark.slice(0, -1)}${figure}`;
+  return `${mark}${figure}`;
+}
+
+/**
+ * Numeral of the diatonic triad on the degree with root `pc`, or null (no such
+ * degree, or it is the diminished triad, which can't be tonicized).
+ */
+function diatonicTarget(pc: number, key: MusicalKey) {
+  const scale = scaleOf(key);
+  const steps = scale.indexOf(mod(pc, 12));
+  if (steps <= 0) return null; // off the scale, or the tonic itself
+
+  const third = mod(scale[(steps + 2) % 7] - scale[steps], 12);
+  const fifth = mod(scale[(steps + 4) % 7] - scale[steps], 12);
+  if (fifth !== 7) return null;
+  return third === 3 ? NUMERALS[steps].toLowerCase() : NUMERALS[steps];
+}
+
+function parallelKey(key: MusicalKey): MusicalKey {
+  return { ...key, mode: key.mode === "major" ? "minor" : "major" };
+}
+
+function asChord(symbol: string): ParsedChord | null {
+  const parsed = parseChordSymbol(symbol);
+  return parsed.ok && parsed.chord.kind === "chord" ? parsed.chord : null;
+}
+
+/**
+ * Analyse a progression (chord symbols in playing order, already in `keyName`).
+ * Entries are null for N.C. and for symbols that don't parse.
+ */
+export function analyzeProgression(symbols: string[], keyName: string): (RomanAnalysis | null)[] {
+  const key = parseKey(keyName);
+  if (!key) return symbols.map(() => null);
+
+  const chords = symbols.map(asChord);
+  const out: (RomanAnalysis | null)[] = chords.map(() => null);
+
+  chords.forEach((c, i) => {
+    if (!c) return;
+    const root = noteToPc(c.root);
+    const next = chords[i + 1];
+
+    if (fitsKey(c, key)) {
+      out[i] = { numeral: numeralFor(c, key), kind: "diatonic" };
+      return;
+    }
+
+    // Secondary dominant / leading-tone chord: must resolve to its target.
+    const targetPc = isDominantShape(c) ? root + 5 : isLeadingToneShape(c) ? root + 1 : null;
+    const target = targetPc !== null ? diatonicTarget(targetPc, key) : null;
+    if (target && next && mod(noteToPc(next.root) - mod(targetPc as number, 12), 12) === 0) {
+      const base = isDominantShape(c) ? "V" : "vii";
+      const numeral = `${caseFor(base, c)}${figuredMark(c)}/${target}`;
+      out[i] = { numeral, kind: "secondary" };
+
+      // ii–V into the target: the chord before is a tonicizing ii.
+      const prev = i > 0 ? chords[i - 1] : null;
+      const prevAnalysis = out[i - 1];
+      if (
+        prev &&
+        prevAnalysis?.kind !== "secondary" &&
+        isDominantShape(c) &&
+        (prev.quality === "minor" || prev.quality === "halfDiminished") &&
+        mod(noteToPc(prev.root) - (targetPc as number) - 2, 12) === 0
+      ) {
+        const numeral = `${caseFor("ii", prev)}${qualityMark(prev)}/${target}`;
+        out[i - 1] = { numeral, kind: "tonicization" };
+      }
+      return;
+    }
+
+    if (key.mode === "major" || key.mode === "minor") {
+      if (fitsKey(c, parallelKey(key))) {
+        out[i] = { numeral: numeralFor(c, key), kind: "borrowed" };
+        return;
+      }
+    }
+
+    out[i] = { numeral: numeralFor(c, key), kind: "chromatic" };
+  });
+
+  return out;
+}
+
+/**
+ * Analysis per chord id for a section's chords (in `keyName`, e.g. the display key).
+ */
+export function analyzeChordEvents(chords: ChordEvent[], keyName: string): Map<string, RomanAnalysis> {
+  const sorted = [...chords].sort(comparePos);
+  const results = analyzeProgression(sorted.map((c) => c.symbol), keyName);
+
+  const out = new Map<string, RomanAnalysis>();
+  sorted.forEach((c, i) => {
+    const r = results[i];
+    if (r) out.set(c.id, r);
+  });
+  return out;
+}
+
+export const ANALYSIS_KIND_LABELS: Record<AnalysisKind, string> = {
+  diatonic: "Diatonic",
+  secondary: "Secondary dominant",
+  tonicization: "Tonicization",
+  borrowed: "Borrowed from the parallel key",
+  chromatic: "Non-diatonic",
+};
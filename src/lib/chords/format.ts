@@ -0,0 +1,60 @@
+// src/lib/chords/format.ts
+import type { ChordSymbol, NoteName } from "./parse";
+
+export const NO_CHORD_TEXT = "N.C.";
+export const REST_GLYPH = "𝄽";
+
+export function formatNote(note: NoteName) {
+  return `${note.letter}${note.accidental}`;
+}
+
+/**
+ * Canonical suffix built from the parsed structure (used when a chord was built in
+ * code, or when the written suffix should be normalised):
+ *   m7b5, maj9, 7sus4, 6/9, m(maj7)... → "m7b5", "maj9", "7sus4", "6/9", "mmaj7"
+ */
+export function chordSuffix(chord: Extract<ChordSymbol, { kind: "chord" }>) {
+  let out = "";
+
+  const { quality, extension } = chord;
+  if (quality === "power") return "5";
+
+  if (quality === "minor" || quality === "halfDiminished") out += "m";
+  else if (quality === "diminished") out += "dim";
+  else if (quality === "augmented") out += "aug";
+
+  if (extension !== undefined) out += chord.majorSeventh ? `maj${extension}` : `${extension}`;
+
+  const additions = [...chord.additions];
+  if (extension === 6 && additions.includes(9)) {
+    additions.splice(additions.indexOf(9), 1);
+    out += "/9";
+  }
+
+  if (chord.suspension) out += `sus${chord.suspension}`;
+  if (chord.altered) out += "alt";
+
+  const alterations = chord.alterations.map((a) => `${a.accidental}${a.degree}`);
+  if (quality === "halfDiminished") alterations.unshift("b5");
+
+  // Without a number in front, "b5"/"#5" would read as part of the root (C#5), so bracket them.
+  const bracket = extension === undefined;
+  if (alterations.length) out += bracket ? `(${alterations.join(",")})` : alterations.join("");
+
+  for (const a of additions) out += `add${a}`;
+  for (const o of chord.omissions) out += `(no${o})`;
+
+  return out;
+}
+
+/**
+ * Text for a parsed chord. The suffix is written the way the user typed it unless
+ * `normalize` is set (or the chord has no written suffix).
+ */
+export function formatChord(chord: ChordSymbol, opts: { normalize?: boolean } = {}) {
+  if (chord.kind === "noChord") return NO_CHORD_TEXT;
+
+  const suffix = !opts.normalize && chord.suffix !== undefined ? chord.suffix : chordSuffix(chord);
+  const bass = chord.bass ? `/${formatNote(chord.bass)}` : "";
+  return `${formatNote(chord.root)}${suffix}${bass}`;
+}
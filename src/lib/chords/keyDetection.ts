@@ -0,0 +1,154 @@
+// src/lib/chords/keyDetection.ts
+import type { Section, TimeSignature } from "../types";
+import { sectionBarTable } from "../bars";
+import { formatKey, keyAccidentalStyle, keySignatureSize, keyTonicOptions, type KeyMode } from "../keys";
+import { comparePos, posOf } from "../timeline";
+import { parseChordSymbol, parseNoteName, type NoteName } from "./parse";
+import { chordTones, type ParsedChord } from "./analysis";
+import { noteToPc } from "./spelling";
+
+export type KeyEstimate = {
+  key: string; // as stored in `originalKey` ("G", "Em")
+  confidence: number; // 0..1, the estimates of one call sum to 1
+};
+
+// Krumhansl–Kessler key profiles (weight of each pitch class above the tonic).
+const PROFILES: Record<"major" | "minor", number[]> = {
+  major: [6.35, 2.23, 3.48, 2.33, 4.38, 4.09, 2.52, 5.19, 2.39, 3.66, 2.29, 2.88],
+  minor: [6.33, 2.68, 3.52, 5.38, 2.6, 3.53, 2.54, 4.75, 3.98, 2.69, 3.34, 3.17],
+};
+
+// How sharply confidence falls off between close scores.
+const SHARPNESS = 8;
+
+function mod(n: number, m: number) {
+  return ((n % m) + m) % m;
+}
+
+function correlation(a: number[], b: number[]) {
+  const mean = (xs: number[]) => xs.reduce((s, x) => s + x, 0) / xs.length;
+  const ma = mean(a);
+  const mb = mean(b);
+  let num = 0;
+  let da = 0;
+  let db = 0;
+  for (let i = 0; i < a.length; i++) {
+    num += (a[i] - ma) * (b[i] - mb);
+    da += (a[i] - ma) ** 2;
+    db += (b[i] - mb) ** 2;
+  }
+  return da && db ? num / Math.sqrt(da * db) : 0;
+}
+
+type TimedChord = { chord: ParsedChord; cells: number };
+
+/**
+ * Chords of every section with how long each one lasts on its cell timeline
+ * (until the next chord, the last one until the end of the section's bars).
+ * N.C. and unparsable symbols are left out but still end the previous chord.
+ */
+function timedChords(sections: Section[], timeSignature: TimeSignature, subdivision: number) {
+  const out: TimedChord[] = [];
+
+  for (const s of sections) {
+    const table = sectionBarTable({
+      chords: s.chords,
+      anchors: s.anchors,
+      timeSignature,
+      subdivision,
+      meterChanges: s.meterChanges,
+      pickupBeats: s.pickupBeats,
+      barCount: s.barCount,
+    });
+    const last = table[table.length - 1];
+    const endCell = last ? last.startCell + last.cells : 0;
+
+    const sorted = [...s.chords].sort(comparePos);
+    sorted.forEach((c, i) => {
+      const parsed = parseChordSymbol(c.symbol);
+      if (!parsed.ok || parsed.chord.kind !== "chord") return;
+
+      const next = sorted[i + 1];
+      const cells = (next ? posOf(next) : endCell) - posOf(c);
+      if (cells > 0) out.push({ chord: parsed.chord, cells });
+    });
+  }
+
+  return out;
+}
+
+/**
+ * Name for a key whose tonic is `pc`: the spelling whose sharps/flats agree with
+ * how the chart writes its roots, then the smaller key signature (Db over C#).
+ */
+function spellKey(pc: number, mode: KeyMode, chords: TimedChord[]) {
+  const options = keyTonicOptions(mode)
+    .map((t) => parseNoteName(t))
+    .filter((n): n is NoteName => !!n && noteToPc(n) === pc)
+    .map((tonic) => formatKey({ tonic, mode }));
+
+  const agreement = (key: string) => {
+    const sharps = keyAccidentalStyle(key) === "sharps";
+    return chords.reduce((n, { chord, cells }) => {
+      const acc = chord.root.accidental;
+      if (!acc) return n;
+      return n + (acc.startsWith("#") === sharps ? cells : -cells);
+    }, 0);
+  };
+
+  return [...options].sort((a, b) => agreement(b) - agreement(a) || keySignatureSize(a) - keySignatureSize(b))[0];
+}
+
+/**
+ * Estimate the key of a chart from its chords, weighted by how long each chord
+ * lasts. Chord tones build a pitch-class profile (roots count double) that is
+ * correlated with the major and minor key profiles; a chart that ends on the
+ * key's tonic chord gets a small bonus. Returns the best `limit` keys, best first
+ * (empty when there are no chords).
+ */
+export function estimateKeys(args: {
+  sections: Section[];
+  timeSignature: TimeSignature;
+  subdivision: number;
+  limit?: number;
+}): KeyEstimate[] {
+  const { sections, timeSignature, subdivision, limit = 3 } = args;
+  const chords = timedChords(sections, timeSignature, subdivision);
+  if (!chords.length) return [];
+
+  const profile = new Array<number>(12).fill(0);
+  for (const { chord, cells } of chords) {
+    const root = noteToPc(chord.root);
+    for (const t of chordTones(chord)) profile[mod(root + t, 12)] += cells;
+    profile[root] += cells;
+  }
+
+  const final = chords[chords.length - 1].chord;
+  const scored: { pc: number; mode: "major" | "minor"; score: number }[] = [];
+
+  for (let pc = 0; pc < 12; pc++) {
+    for (const mode of ["major", "minor"] as const) {
+      const rotated = profile.map((_, i) => profile[mod(pc + i, 12)]);
+      let score = correlation(rotated, PROFILES[mode]);
+
+      const endsOnTonic =
+        noteToPc(final.root) === pc &&
+        (final.quality === "minor") === (mode === "minor") &&
+        final.quality !== "diminished";
+      if (endsOnTonic) score += 0.1;
+
+      scored.push({ pc, mode, score });
+    }
+  }
+
+  // Confidence: softmax over all 24 keys, so it reads as "how clearly this one wins".
+  const top = Math.max(...scored.map((s) => s.score));
+  const weights = scored.map((s) => Math.exp((s.score - top) * SHARPNESS));
+  const total = weights.reduce((a, b) => a + b, 0);
+
+  return scored
+    .map((s, i) => ({ ...s, confidence: weights[i] / total }))
+    .sort((a, b) => b.confidence - a.confidence)
+    .slice(0, limit)
+    .map((s) => ({ key: spellKey(s.pc, s.mode, chords), confidence: s.confidence }));
+}
@@ -0,0 +1,92 @@
+// src/lib/chords/nashville.ts
+import type { ChordEvent } from "../types";
+import { keyAccidentalStyle, parseKey } from "../keys";
+import { parseChordSymbol, type NoteLetter, type NoteName } from "./parse";
+import { chordSuffix, formatChord, formatNote, NO_CHORD_TEXT } from "./format";
+import { noteToPc, pcToNote, spellOnLetter } from "./spelling";
+
+const LETTERS: NoteLetter[] = ["C", "D", "E", "F", "G", "A", "B"];
+const MAJOR_SCALE = [0, 2, 4, 5, 7, 9, 11];
+
+function mod(n: number, m: number) {
+  return ((n % m) + m) % m;
+}
+
+/**
+ * Number for a note relative to `tonic`, counted on the tonic's major scale:
+ * degree from the letter distance, "b"/"#" for the difference (Bb in C → "b7").
+ */
+export function nashvilleDegree(note: NoteName, tonic: NoteName) {
+  const steps = mod(LETTERS.indexOf(note.letter) - LETTERS.indexOf(tonic.letter), 7);
+  const diff = mod(noteToPc(note) - noteToPc(tonic) - MAJOR_SCALE[steps] + 6, 12) - 6;
+  const prefix = (diff > 0 ? "#" : "b").repeat(Math.abs(diff));
+  return `${prefix}${steps + 1}`;
+}
+
+const SUPERSCRIPT = "⁰¹²³⁴⁵⁶⁷⁸⁹";
+
+/**
+ * A suffix that starts with a number is raised ("5⁷", "4⁶/9") so it can't run into the
+ * degree: "57" would read as another number.
+ */
+function raiseLeadingDigits(suffix: string) {
+  const m = suffix.match(/^\d+/);
+  if (!m) return suffix;
+  return [...m[0]].map((d) => SUPERSCRIPT[Number(d)]).join("") + suffix.slice(m[0].length);
+}
+
+function lowerDigits(text: string) {
+  return [...text].map((ch) => (SUPERSCRIPT.includes(ch) ? String(SUPERSCRIPT.indexOf(ch)) : ch)).join("");
+}
+
+/**
+ * "Dm7" in C → "2m7", "G7" → "5⁷", "G/B" → "5/7", "Bb" → "b7". Unparsable symbols are
+ * returned as is.
+ */
+export function toNashville(symbol: string, key: string) {
+  const k = parseKey(key);
+  const parsed = parseChordSymbol(symbol);
+  if (!k || !parsed.ok) return symbol;
+
+  const chord = parsed.chord;
+  if (chord.kind === "noChord") return NO_CHORD_TEXT;
+
+  const suffix = chord.suffix ?? chordSuffix(chord);
+  const bass = chord.bass ? `/${nashvilleDegree(chord.bass, k.tonic)}` : "";
+  return `${nashvilleDegree(chord.root, k.tonic)}${raiseLeadingDigits(suffix)}${bass}`;
+}
+
+function noteForDegree(accidentals: string, degree: number, tonic: NoteName, key: string): NoteName {
+  const steps = degree - 1;
+  const shift = [...accidentals].reduce((n, a) => n + (a === "#" || a === "♯" ? 1 : -1), 0);
+  const pc = noteToPc(tonic) + MAJOR_SCALE[steps] + shift;
+  const letter = LETTERS[mod(LETTERS.indexOf(tonic.letter) + steps, 7)];
+  return spellOnLetter(pc, letter) ?? pcToNote(pc, keyAccidentalStyle(key));
+}
+
+const NUMBER_CHORD = /^([b#♭♯]*)([1-7])(.*?)(?:\/([b#♭♯]*)([1-7]))?$/;
+
+/**
+ * Absolute chord in `key` for a Nashville number ("4" → "F" in C, "2m7" → "Dm7",
+ * "5⁷" or "57" → "G7", "5/7" → "G/B"). Null when the text is not a number chord or its
+ * suffix doesn't parse.
+ */
+export function fromNashville(text: string, key: string): string | null {
+  const k = parseKey(key);
+  const m = text.trim().match(NUMBER_CHORD);
+  if (!k || !m) return null;
+
+  const root = noteForDegree(m[1], Number(m[2]), k.tonic, key);
+  const bass = m[5] ? `/${formatNote(noteForDegree(m[4], Number(m[5]), k.tonic, key))}` : "";
+
+  const parsed = parseChordSymbol(`${formatNote(root)}${lowerDigits(m[3])}${bass}`);
+  return parsed.ok ? formatChord(parsed.chord) : null;
+}
+
+export function isNashvilleInput(text: string) {
+  return NUMBER_CHORD.test(text.trim());
+}
+
+export function nashvilleChordEvents(chords: ChordEvent[], key: string): ChordEvent[] {
+  return chords.map((c) => ({ ...c, symbol: toNashville(c.symbol, key) }));
+}
@@ -0,0 +1,121 @@
+// src/lib/chords/palette.ts
+import { keyAccidentalStyle, MODE_SCALES, parseKey, type MusicalKey } from "../keys";
+import { parseChordSymbol, type NoteLetter, type NoteName } from "./parse";
+import { formatChord, formatNote } from "./format";
+import { noteToPc, pcToNote, spellOnLetter } from "./spelling";
+import { analyzeProgression } from "./analysis";
+
+export type PaletteGroup = "triads" | "sevenths" | "borrowed" | "inversions";
+
+export type PaletteEntry = {
+  symbol: string; // letters in the palette's key
+  numeral: string;
+  group: PaletteGroup;
+};
+
+export const PALETTE_GROUP_LABELS: Record<PaletteGroup, string> = {
+  triads: "Triads",
+  sevenths: "Sevenths",
+  borrowed: "Borrowed",
+  inversions: "Inversions",
+};
+
+const LETTERS: NoteLetter[] = ["C", "D", "E", "F", "G", "A", "B"];
+
+// Suffix by the stacked intervals above the root (third, fifth[, seventh]).
+const TRIAD_SUFFIX: Record<string, string> = { "4,7": "", "3,7": "m", "3,6": "dim", "4,8": "aug" };
+const SEVENTH_SUFFIX: Record<string, string> = {
+  "4,7,11": "maj7",
+  "4,7,10": "7",
+  "3,7,10": "m7",
+  "3,7,11": "m(maj7)",
+  "3,6,10": "m7b5",
+  "3,6,9": "dim7",
+  "4,8,11": "maj7#5",
+};
+
+function mod(n: number, m: number) {
+  return ((n % m) + m) % m;
+}
+
+/**
+ * Spelled note on a degree of `scale` (semitones above the key's tonic), named on
+ * the degree's letter: the 3rd of C minor is Eb, the 6th of C harmonic minor Ab.
+ */
+function noteAt(key: MusicalKey, keyName: string, scale: number[], step: number): NoteName {
+  const letter = LETTERS[(LETTERS.indexOf(key.tonic.letter) + step) % 7];
+  const pc = noteToPc(key.tonic) + scale[step % 7];
+  return spellOnLetter(pc, letter) ?? pcToNote(pc, keyAccidentalStyle(keyName));
+}
+
+/**
+ * Chord stacked in thirds on `step` of `scale`, or null when the stack has no
+ * common name. `bassStep` puts another degree in the bass (first inversion = step + 2).
+ */
+function stackedChord(
+  key: MusicalKey,
+  keyName: string,
+  scale: number[],
+  step: number,
+  opts: { seventh?: boolean; bassStep?: number } = {}
+) {
+  const interval = (n: number) => mod(scale[(step + n) % 7] - scale[step % 7], 12);
+  const intervals = opts.seventh ? [interval(2), interval(4), interval(6)] : [interval(2), interval(4)];
+  const suffix = (opts.seventh ? SEVENTH_SUFFIX : TRIAD_SUFFIX)[intervals.join(",")];
+  if (suffix === undefined) return null;
+
+  const root = formatNote(noteAt(key, keyName, scale, step));
+  const bass = opts.bassStep !== undefined ? `/${formatNote(noteAt(key, keyName, scale, opts.bassStep))}` : "";
+  const parsed = parseChordSymbol(`${root}${suffix}${bass}`);
+  return parsed.ok ? formatChord(parsed.chord) : null;
+}
+
+/**
+ * Chords to arm from for `keyName`: the diatonic triads and seventh chords, common
+ * borrowed chords (iv, bIII, bVI, bVII in major; V, V7, IV, vii°7 in minor) and
+ * slash-bass inversions of I, IV and V.
+ */
+export function chordPalette(keyName: string): PaletteEntry[] {
+  const key = parseKey(keyName);
+  if (!key) return [];
+
+  const scale = MODE_SCALES[key.mode];
+  const minor = key.mode === "minor";
+  const harmonic = minor ? [...scale.slice(0, 6), 11] : scale;
+  const out: { symbol: string | null; group: PaletteGroup }[] = [];
+
+  for (let step = 0; step < 7; step++) {
+    out.push({ symbol: stackedChord(key, keyName, scale, step), group: "triads" });
+  }
+  for (let step = 0; step < 7; step++) {
+    out.push({ symbol: stackedChord(key, keyName, scale, step, { seventh: true }), group: "sevenths" });
+  }
+
+  if (key.mode === "major") {
+    const parallel = MODE_SCALES.minor;
+    for (const step of [3, 2, 5, 6]) {
+      out.push({ symbol: stackedChord(key, keyName, parallel, step), group: "borrowed" });
+    }
+  } else if (minor) {
+    out.push({ symbol: stackedChord(key, keyName, harmonic, 4), group: "borrowed" });
+    out.push({ symbol: stackedChord(key, keyName, harmonic, 4, { seventh: true }), group: "borrowed" });
+    out.push({ symbol: stackedChord(key, keyName, MODE_SCALES.dorian, 3), group: "borrowed" });
+    out.push({ symbol: stackedChord(key, keyName, harmonic, 6, { seventh: true }), group: "borrowed" });
+  }
+
+  // V in minor takes the leading tone, as it usually does when inverted.
+  const dominant = minor ? harmonic : scale;
+  out.push({ symbol: stackedChord(key, keyName, scale, 0, { bassStep: 2 }), group: "inversions" });
+  out.push({ symbol: stackedChord(key, keyName, scale, 0, { bassStep: 4 }), group: "inversions" });
+  out.push({ symbol: stackedChord(key, keyName, scale, 3, { bassStep: 5 }), group: "inversions" });
+  out.push({ symbol: stackedChord(key, keyName, dominant, 4, { bassStep: 6 }), group: "inversions" });
+  out.push({
+    symbol: stackedChord(key, keyName, dominant, 4, { seventh: true, bassStep: 3 }),
+    group: "inversions",
+  });
+
+  // Analysed one by one: the palette is not a progression, so nothing reads as secondary.
+  return out
+    .filter((e): e is { symbol: string; group: PaletteGroup } => !!e.symbol)
+    .map((e) => ({ ...e, numeral: analyzeProgression([e.symbol], keyName)[0]?.numeral ?? "" }));
+}
@@ -0,0 +1,326 @@
+// src/lib/chords/parse.ts
+
+export type NoteLetter = "A" | "B" | "C" | "D" | "E" | "F" | "G";
+export type Accidental = "" | "#" | "b" | "##" | "bb";
+
+export type NoteName = {
+  letter: NoteLetter;
+  accidental: Accidental;
+};
+
+export type ChordQuality = "major" | "minor" | "diminished" | "augmented" | "halfDiminished" | "power";
+
+export type Alteration = {
+  accidental: "#" | "b";
+  degree: number; // 5, 9, 11 or 13
+};
+
+export type ChordSymbol =
+  | { kind: "noChord" }
+  | {
+      kind: "chord";
+      root: NoteName;
+      quality: ChordQuality;
+      extension?: number; // highest stacked degree: 6, 7, 9, 11 or 13
+      majorSeventh?: boolean; // maj7 / maj9 / ...
+      suspension?: 2 | 4;
+      additions: number[]; // add9, the 9 of 6/9, ...
+      alterations: Alteration[];
+      omissions: number[]; // no3, omit5
+      altered?: boolean; // "7alt"
+      bass?: NoteName;
+      suffix?: string; // the text between root and bass as written (kept for display)
+    };
+
+export type ChordParseError = {
+  message: string;
+  start: number; // character offsets into the input, end exclusive
+  end: number;
+};
+
+export type ChordParseResult = { ok: true; chord: ChordSymbol } | { ok: false; error: ChordParseError };
+
+const NO_CHORD = /^(N\.?\s?C\.?)$/i;
+
+// Longer spellings first. `needsDegree` words only count when a number follows
+// ("Cma7"), so "Cmadd9" still reads as minor + add9.
+const QUALITY_WORDS: { text: string; quality: ChordQuality | "majorSeventh"; needsDegree?: boolean }[] = [
+  { text: "maj", quality: "majorSeventh" },
+  { text: "Maj", quality: "majorSeventh" },
+  { text: "MA", quality: "majorSeventh", needsDegree: true },
+  { text: "ma", quality: "majorSeventh", needsDegree: true },
+  { text: "Δ", quality: "majorSeventh" },
+  { text: "∆", quality: "majorSeventh" },
+  { text: "M", quality: "majorSeventh" },
+  { text: "min", quality: "minor" },
+  { text: "mi", quality: "minor" },
+  { text: "m", quality: "minor" },
+  { text: "dim", quality: "diminished" },
+  { text: "°", quality: "diminished" },
+  { text: "o", quality: "diminished" },
+  { text: "ø", quality: "halfDiminished" },
+  { text: "Ø", quality: "halfDiminished" },
+  { text: "aug", quality: "augmented" },
+];
+
+const DEGREE = /^(13|11|9|7|6|5|4|3|2|1)/;
+const EXTENSIONS = [6, 7, 9, 11, 13];
+const ALTERABLE = [5, 9, 11, 13];
+
+/**
+ * Parse the note at `i` (letter plus up to two accidentals; lowercase letters are accepted).
+ */
+function readNote(s: string, i: number): { note: NoteName; end: number } | null {
+  const letter = s[i]?.toUpperCase();
+  if (!letter || !"ABCDEFG".includes(letter)) return null;
+
+  let j = i + 1;
+  let accidental: Accidental = "";
+  for (const acc of ["##", "bb", "♯♯", "♭♭", "#", "b", "♯", "♭"]) {
+    if (s.startsWith(acc, j)) {
+      const sharp = acc.includes("#") || acc.includes("♯");
+      accidental = (sharp ? "#" : "b").repeat(acc.length) as Accidental;
+      j += acc.length;
+      break;
+    }
+  }
+
+  return { note: { letter: letter as NoteLetter, accidental }, end: j };
+}
+
+/**
+ * A bare note name ("F#", "Bb", "ebb"); null unless the whole text is one note.
+ */
+export function parseNoteName(text: string): NoteName | null {
+  const t = text.trim();
+  const r = readNote(t, 0);
+  return r && r.end === t.length ? r.note : null;
+}
+
+/**
+ * Parse one chord symbol:
+ *   root [quality] [extension] [sus] [add/alterations/omissions, optionally in (...)] [/bass]
+ * e.g. Bbm7b5/Ab, C(add9), Gsus4, F#m11, C7(#9,b13), Dmaj9, A6/9, C2, D(4), am, N.C.
+ */
+export function parseChordSymbol(input: string): ChordParseResult {
+  const s = input;
+  let i = 0;
+  while (i < s.length && /\s/.test(s[i])) i++;
+  let stop = s.length;
+  while (stop > i && /\s/.test(s[stop - 1])) stop--;
+
+  const fail = (message: string, start: number, end = start + 1): ChordParseResult => ({
+    ok: false,
+    error: { message, start, end: Math.min(Math.max(end, start), Math.max(stop, start + 1)) },
+  });
+
+  if (i >= stop) return fail("Empty chord symbol", 0, 0);
+  if (NO_CHORD.test(s.slice(i, stop))) return { ok: true, chord: { kind: "noChord" } };
+
+  const root = readNote(s, i);
+  if (!root) return fail("Expected a root note (A–G)", i);
+
+  const suffixStart = root.end;
+  let j = suffixStart;
+
+  let quality: ChordQuality = "major";
+  let qualitySet = false;
+  let extension: number | undefined;
+  let majorSeventh = false;
+  let suspension: 2 | 4 | undefined;
+  let altered = false;
+  const additions: number[] = [];
+  const alterations: Alteration[] = [];
+  const omissions: number[] = [];
+  const groups: number[] = []; // open "(" positions
+
+  let suffixEnd = stop;
+  let bass: NoteName | undefined;
+
+  function readDegree(at: number) {
+    const m = s.slice(at, stop).match(DEGREE);
+    return m ? { degree: Number(m[1]), end: at + m[1].length } : null;
+  }
+
+  while (j < stop) {
+    const ch = s[j];
+
+    if (ch === "(") {
+      groups.push(j);
+      j++;
+      continue;
+    }
+    if (ch === ")") {
+      if (!groups.length) return fail("Unmatched ')'", j);
+      groups.pop();
+      j++;
+      continue;
+    }
+    if ((ch === "," || ch === " ") && groups.length) {
+      j++;
+      continue;
+    }
+
+    if (ch === "/") {
+      // "6/9" is a chord, not a bass note.
+      if (extension === 6 && s[j + 1] === "9") {
+        additions.push(9);
+        j += 2;
+        continue;
+      }
+      if (groups.length) return fail("Unclosed '('", groups[groups.length - 1]);
+
+      suffixEnd = j;
+      const b = readNote(s, j + 1);
+      if (!b) return fail("Expected a bass note after '/'", j + 1, j + 2);
+      if (b.end < stop) return fail(`Unexpected "${s.slice(b.end, stop)}" after the bass note`, b.end, stop);
+      bass = b.note;
+      j = stop;
+      break;
+    }
+
+    const rest = s.slice(j, stop);
+
+    if (rest.startsWith("sus")) {
+      const d = readDegree(j + 3);
+      if (d && d.degree !== 2 && d.degree !== 4) return fail("Only sus2 and sus4 are supported", j, d.end);
+      suspension = d ? (d.degree as 2 | 4) : 4;
+      j = d ? d.end : j + 3;
+      continue;
+    }
+
+    if (rest.startsWith("add")) {
+      const d = readDegree(j + 3);
+      if (!d) return fail("Expected a degree after 'add'", j, j + 3);
+      additions.push(d.degree);
+      j = d.end;
+      continue;
+    }
+
+    const omit = rest.startsWith("omit") ? 4 : rest.startsWith("no") ? 2 : 0;
+    if (omit) {
+      const d = readDegree(j + omit);
+      if (!d) return fail("Expected a degree to omit", j, j + omit);
+      omissions.push(d.degree);
+      j = d.end;
+      continue;
+    }
+
+    if (rest.startsWith("alt")) {
+      altered = true;
+      j += 3;
+      continue;
+    }
+
+    // Accidental + degree = alteration (b9, #11, +5, -5). Before any quality or
+    // extension, a bare "+" is augmented and "-" is minor (C+, C-7).
+    if ("#b♯♭+-".includes(ch)) {
+      const d = readDegree(j + 1);
+      const nothingYet = !qualitySet && extension === undefined;
+
+      if (ch === "-" && nothingYet) {
+        quality = "minor";
+        qualitySet = true;
+        j++;
+        continue;
+      }
+      if (d && ALTERABLE.includes(d.degree)) {
+        alterations.push({ accidental: "#+♯".includes(ch) ? "#" : "b", degree: d.degree });
+        j = d.end;
+        continue;
+      }
+      if (ch === "+" && nothingYet) {
+        quality = "augmented";
+        qualitySet = true;
+        j++;
+        continue;
+      }
+      return fail(`Expected 5, 9, 11 or 13 after "${ch}"`, j, d ? d.end : j + 1);
+    }
+
+    const word = QUALITY_WORDS.find(
+      (w) => rest.startsWith(w.text) && (!w.needsDegree || readDegree(j + w.text.length))
+    );
+    if (word) {
+      const after = j + word.text.length;
+
+      if (word.quality === "majorSeventh") {
+        const d = readDegree(after);
+        if (d && [7, 9, 11, 13].includes(d.degree) && !majorSeventh && extension === undefined) {
+          majorSeventh = true;
+          extension = d.degree;
+          j = d.end;
+          continue;
+        }
+        if (!d && (word.text === "Δ" || word.text === "∆") && extension === undefined) {
+          majorSeventh = true;
+          extension = 7;
+          j = after;
+          continue;
+        }
+        if (!d && !qualitySet) {
+          // "Cmaj", "CM": spelled-out major triad
+          qualitySet = true;
+          j = after;
+          continue;
+        }
+        return fail(`Unexpected "${word.text}"`, j, after);
+      }
+
+      if (qualitySet || extension !== undefined) return fail(`Unexpected "${word.text}"`, j, after);
+      quality = word.quality;
+      qualitySet = true;
+      j = after;
+      continue;
+    }
+
+    const d = readDegree(j);
+    if (d) {
+      if (d.degree === 5 && !qualitySet && extension === undefined) {
+        quality = "power";
+        qualitySet = true;
+      } else if (EXTENSIONS.includes(d.degree) && extension === undefined) {
+        extension = d.degree;
+      } else if (extension === 6 && d.degree === 9) {
+        additions.push(9); // "69"
+      } else if (d.degree === 2 && !additions.includes(2)) {
+        additions.push(2); // "C2", "C(2)": add2
+      } else if (d.degree === 4 && suspension === undefined) {
+        suspension = 4; // "D(4)", "G4": sus4
+      } else {
+        return fail(`Unexpected "${d.degree}"`, j, d.end);
+      }
+      j = d.end;
+      continue;
+    }
+
+    return fail(`Unexpected "${ch}"`, j);
+  }
+
+  if (groups.length) return fail("Unclosed '('", groups[groups.length - 1]);
+
+  const suffix = s.slice(suffixStart, suffixEnd).trim();
+  if (quality === "halfDiminished" && extension === undefined) extension = 7;
+
+  return {
+    ok: true,
+    chord: {
+      kind: "chord",
+      root: root.note,
+      quality,
+      extension,
+      majorSeventh: majorSeventh || undefined,
+      suspension,
+      additions,
+      alterations,
+      omissions,
+      altered: altered || undefined,
+      bass,
+      suffix,
+    },
+  };
+}
+
+export function isValidChordSymbol(input: string) {
+  return parseChordSymbol(input).ok;
+}
@@ -0,0 +1,80 @@
+// src/lib/chords/spelling.ts
+import type { Accidental, NoteLetter, NoteName } from "./parse";
+
+const LETTERS: NoteLetter[] = ["C", "D", "E", "F", "G", "A", "B"];
+const NATURAL_PC: Record<NoteLetter, number> = { C: 0, D: 2, E: 4, F: 5, G: 7, A: 9, B: 11 };
+
+const SHARP_NAMES = ["C", "C#", "D", "D#", "E", "F", "F#", "G", "G#", "A", "A#", "B"];
+const FLAT_NAMES = ["C", "Db", "D", "Eb", "E", "F", "Gb", "G", "Ab", "A", "Bb", "B"];
+
+export type AccidentalStyle = "sharps" | "flats";
+
+/**
+ * "key": spell by scale degree in the target key (E# in F# major, Cb in Gb major,
+ * double sharps/flats where the degree needs them).
+ * "simplified": the nearest common name (no E#, B#, Cb, Fb or double accidentals).
+ * "plain": fewest accidentals (sharps or flats by key) unless the note itself was
+ * written awkwardly; for chords typed in the display key and stored in the original.
+ */
+export type SpellingMode = "key" | "simplified" | "plain";
+
+function mod(n: number, m: number) {
+  return ((n % m) + m) % m;
+}
+
+export function accidentalShift(accidental: Accidental) {
+  return accidental.startsWith("#") ? accidental.length : -accidental.length;
+}
+
+export function noteToPc(note: NoteName) {
+  return mod(NATURAL_PC[note.letter] + accidentalShift(note.accidental), 12);
+}
+
+export function pcToNote(pc: number, style: AccidentalStyle): NoteName {
+  const name = (style === "flats" ? FLAT_NAMES : SHARP_NAMES)[mod(pc, 12)];
+  return { letter: name[0] as NoteLetter, accidental: name.slice(1) as Accidental };
+}
+
+/**
+ * The note named with `letter` that sounds as `pc`, or null when that would need
+ * more than a double accidental.
+ */
+export function spellOnLetter(pc: number, letter: NoteLetter): NoteName | null {
+  const diff = mod(pc - NATURAL_PC[letter] + 6, 12) - 6; // -6..5
+  if (Math.abs(diff) > 2) return null;
+  const accidental = (diff > 0 ? "#" : "b").repeat(Math.abs(diff)) as Accidental;
+  return { letter, accidental };
+}
+
+export function isAwkwardSpelling(note: NoteName) {
+  if (note.accidental.length > 1) return true;
+  const name = `${note.letter}${note.accidental}`;
+  return name === "E#" || name === "B#" || name === "Cb" || name === "Fb";
+}
+
+/**
+ * Move `note` from `fromTonic` to `toTonic` keeping its scale degree: the letter
+ * moves by the same number of steps as the tonic and the accidental makes up the
+ * pitch. `style` is only used when a degree can't be spelled (triple accidentals)
+ * or for simplified spelling.
+ */
+export function transposeNoteInKey(
+  note: NoteName,
+  fromTonic: NoteName,
+  toTonic: NoteName,
+  opts: { style: AccidentalStyle; mode?: SpellingMode }
+): NoteName {
+  const steps = LETTERS.indexOf(toTonic.letter) - LETTERS.indexOf(fromTonic.letter);
+  const semitones = noteToPc(toTonic) - noteToPc(fromTonic);
+
+  const pc = mod(noteToPc(note) + semitones, 12);
+  if (opts.mode === "plain" && !isAwkwardSpelling(note)) return pcToNote(pc, opts.style);
+  const letter = LETTERS[mod(LETTERS.indexOf(note.letter) + steps, 7)];
+  const spelled = spellOnLetter(pc, letter) ?? pcToNote(pc, opts.style);
+
+  return opts.mode === "simplified" ? simplifyNote(spelled, opts.style) : spelled;
+}
+
+export function simplifyNote(note: NoteName, style: AccidentalStyle): NoteName {
+  return isAwkwardSpelling(note) ? pcToNote(noteToPc(note), style) : note;
+}
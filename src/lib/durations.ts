@@ -0,0 +1,37 @@
+// src/lib/durations.ts
+import type { DurationStyle } from "./types";
+import type { BarModel, Segment } from "./bars";
+import { pulseCells } from "./meter";
+
+export const DURATION_STYLES: { id: DurationStyle; label: string }[] = [
+  { id: "ticks", label: "Ticks (>>)" },
+  { id: "slashes", label: "Slashes (/ per beat)" },
+  { id: "counts", label: "Beat counts" },
+];
+
+/**
+ * Counted beats in a segment as written over the chord: "2", "1.5", "0.33".
+ */
+export function beatCountLabel(seg: Segment, bar: BarModel, subdivision: number) {
+  const beats = seg.cells / pulseCells(bar.timeSignature, subdivision);
+  return String(Math.round(beats * 100) / 100);
+}
+
+/**
+ * One slash per counted beat, as cells from the start of the bar; beats under a rest
+ * or N.C. (including one carried over from an earlier bar) get none. Pickups count
+ * back from the barline, like the grid.
+ */
+export function beatSlashCells(bar: BarModel, subdivision: number): number[] {
+  const pulse = pulseCells(bar.timeSignature, subdivision);
+  const sounding = (cell: number) => {
+    const seg = [...bar.segments].reverse().find((s) => s.startCellInBar <= cell + 1e-9);
+    return !(seg ? seg.kind : bar.heldKind);
+  };
+
+  const out: number[] = [];
+  for (let cell = bar.cells - pulse; cell > -1e-9; cell -= pulse) {
+    if (sounding(cell)) out.unshift(cell);
+  }
+  return out;
+}
@@ -0,0 +1,124 @@
+// src/lib/form.ts
+import type { FormEntry, FormLayout, LeadSheetDoc, Section } from "./types";
+
+export type FormItem = {
+  key: string; // unique per rendered block (entry + pass)
+  entryId: string | null; // null when the doc has no explicit form
+  section: Section;
+  repeat: number; // passes this block stands for (1 when expanded)
+  pass: number; // 1-based pass number (expanded layout only)
+  passes: number; // total passes of the entry
+};
+
+/**
+ * Resolve the song form into the blocks to lay out, in order.
+ *
+ * - No form: every section once, in section order.
+ * - "expand": one block per pass (Chorus ×2 -> two Chorus blocks).
+ * - "marker": one block per entry carrying its repeat count.
+ *
+ * Entries pointing at deleted sections are skipped.
+ */
+export function resolveForm(doc: Pick<LeadSheetDoc, "sections" | "form" | "formLayout">): FormItem[] {
+  const { sections, form, formLayout = "marker" } = doc;
+
+  if (!form?.length) {
+    return sections.map((section) => ({
+      key: section.id,
+      entryId: null,
+      section,
+      repeat: 1,
+      pass: 1,
+      passes: 1,
+    }));
+  }
+
+  const byId = new Map(sections.map((s) => [s.id, s]));
+  const out: FormItem[] = [];
+
+  for (const entry of form) {
+    const section = byId.get(entry.sectionId);
+    if (!section) continue;
+
+    const passes = safeRepeat(entry.repeat);
+
+    if (formLayout === "expand") {
+      for (let pass = 1; pass <= passes; pass++) {
+        out.push({ key: `${entry.id}:${pass}`, entryId: entry.id, section, repeat: 1, pass, passes });
+      }
+    } else {
+      out.push({ key: entry.id, entryId: entry.id, section, repeat: passes, pass: 1, passes });
+    }
+  }
+
+  return out;
+}
+
+export function formItemHeading(item: FormItem, layout: FormLayout = "marker") {
+  const name = item.section.name || "Untitled section";
+  if (item.passes <= 1) return name;
+  return layout === "expand" ? `${name} (${item.pass}/${item.passes})` : `${name} ×${item.passes}`;
+}
+
+/**
+ * Short roadmap label: "Verse 1" -> "V1", "Pre-Chorus" -> "PC", "Chorus" -> "C".
+ */
+export function sectionAbbrev(section: Section) {
+  const name = section.name.trim();
+  if (!name) return "?";
+
+  const words = name.split(/[\s-]+/).filter(Boolean);
+  return words
+    .map((w) => (/^\d+$/.test(w) ? w : w[0].toUpperCase()))
+    .join("");
+}
+
+/**
+ * Roadmap string like "V1 C V2 C B C×2".
+ */
+export function formRoadmap(doc: Pick<LeadSheetDoc, "sections" | "form">) {
+  return resolveForm({ ...doc, formLayout: "marker" })
+    .map((item) => `${sectionAbbrev(item.section)}${item.repeat > 1 ? `×${item.repeat}` : ""}`)
+    .join(" ");
+}
+
+export function addFormEntry(form: FormEntry[] | undefined, sectionId: string): FormEntry[] {
+  return [...(form ?? []), { id: crypto.randomUUID(), sectionId }];
+}
+
+export function removeFormEntry(form: FormEntry[] | undefined, entryId: string): FormEntry[] {
+  return (form ?? []).filter((e) => e.id !== entryId);
+}
+
+export function moveFormEntry(form: FormEntry[] | undefined, entryId: string, dir: -1 | 1): FormEntry[] {
+  const list = form ?? [];
+  const idx = list.findIndex((e) => e.id === entryId);
+  const target = idx + dir;
+  if (idx === -1 || target < 0 || target >= list.length) return list;
+
+  const next = [...list];
+  [next[idx], next[target]] = [next[target], next[idx]];
+  return next;
+}
+
+export function setFormEntryRepeat(
+  form: FormEntry[] | undefined,
+  entryId: string,
+  repeat: number
+): FormEntry[] {
+  return (form ?? []).map((e) => (e.id === entryId ? { ...e, repeat: safeRepeat(repeat) } : e));
+}
+
+/**
+ * Drop entries whose section no longer exists (e.g. after deleting a section).
+ */
+export function pruneForm(form: FormEntry[] | undefined, sections: Section[]): FormEntry[] | undefined {
+  if (!form) return form;
+  const ids = new Set(sections.map((s) => s.id));
+  return form.filter((e) => ids.has(e.sectionId));
+}
+
+function safeRepeat(n: number | undefined) {
+  if (!Number.isFinite(n)) return 1;
+  return Math.max(1, Math.floor(n as number));
+}
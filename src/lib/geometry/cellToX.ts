@@ -1,22 +1,47 @@
 // src/lib/geometry/cellToX.ts
 
+export type BarSpan = { startCell: number; cells: number };
+
+/**
+ * Bar width is proportional to its length in cells (a 2/4 bar is half a 4/4 bar).
+ */
+export function barWidthPx(bar: BarSpan, cellWidthPx: number) {
+  return bar.cells * cellWidthPx;
+}
+
+export function systemWidthPx(bars: BarSpan[], cellWidthPx: number, gapPx: number) {
+  if (!bars.length) return 0;
+  const sum = bars.reduce((acc, b) => acc + barWidthPx(b, cellWidthPx), 0);
+  return sum + (bars.length - 1) * gapPx;
+}
+
+/**
+ * Map an absolute cell to x within a system, using the system's bar table.
+ * Cells before the system clamp to 0; cells past the last bar extend it.
+ */
 export function cellToX(args: {
   absoluteCell: number;
-  systemStartCell: number;
-  barCells: number;
-  barWidthPx: number;
+  bars: BarSpan[]; // bars of this system, in order
+  cellWidthPx: number;
   gapPx: number;
 }) {
-  const { absoluteCell, systemStartCell, barCells, barWidthPx, gapPx } = args;
+  const { absoluteCell, bars, cellWidthPx, gapPx } = args;
+
+  if (!bars.length || cellWidthPx <= 0) return 0;
 
-  if (barCells <= 0) return 0;
+  let x = 0;
+  for (let i = 0; i < bars.length; i++) {
+    const bar = bars[i];
+    const isLast = i === bars.length - 1;
+    const barEnd = bar.startCell + bar.cells;
 
-  const local = absoluteCell - systemStartCell;
-  const clampedLocal = Math.max(0, local);
+    if (absoluteCell < barEnd || isLast) {
+      const withinBar = Math.max(0, absoluteCell - bar.startCell);
+      return x + withinBar * cellWidthPx;
+    }
 
-  const barIndex = Math.floor(clampedLocal / barCells);
-  const withinBar = clampedLocal - barIndex * barCells; // 0..barCells
+    x += barWidthPx(bar, cellWidthPx) + gapPx;
+  }
 
-  const withinPct = withinBar / barCells; // 0..1
-  return barIndex * (barWidthPx + gapPx) + withinPct * barWidthPx;
+  return x;
 }
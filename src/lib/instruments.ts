@@ -0,0 +1,73 @@
+// src/lib/instruments.ts
+import type { ChordEvent, Instrument } from "./types";
+import { parseNoteName, type NoteLetter, type NoteName } from "./chords/parse";
+import type { SpellingMode } from "./chords/spelling";
+import { noteToPc, spellOnLetter } from "./chords/spelling";
+import { formatKey, keySignatureSize, keyTonicOptions, parseKey } from "./keys";
+import { transposeChordEvents } from "./transpose";
+
+export type { Instrument } from "./types";
+
+export type InstrumentInfo = {
+  id: Instrument;
+  label: string;
+  // Written pitch above concert pitch: letter steps and semitones (Bb: a major 2nd).
+  steps: number;
+  semitones: number;
+};
+
+export const INSTRUMENTS: InstrumentInfo[] = [
+  { id: "concert", label: "Concert", steps: 0, semitones: 0 },
+  { id: "Bb", label: "Bb trumpet / tenor sax", steps: 1, semitones: 2 },
+  { id: "Eb", label: "Eb alto sax", steps: 5, semitones: 9 },
+  { id: "F", label: "F horn", steps: 4, semitones: 7 },
+];
+
+const LETTERS: NoteLetter[] = ["C", "D", "E", "F", "G", "A", "B"];
+
+export function instrumentInfo(id: Instrument | undefined): InstrumentInfo {
+  return INSTRUMENTS.find((i) => i.id === id) ?? INSTRUMENTS[0];
+}
+
+/**
+ * Key the part is written in for a song sounding in `concertKey`. The tonic moves
+ * by the instrument's interval (concert Eb → F for Bb instruments); when that
+ * lands on a key with more accidentals than its enharmonic twin, the twin is used
+ * (concert E on alto: Db major rather than C# major).
+ */
+export function writtenKey(concertKey: string, instrument: Instrument | undefined) {
+  const { steps, semitones } = instrumentInfo(instrument);
+  const k = parseKey(concertKey);
+  if (!k || !semitones) return concertKey;
+
+  const pc = (noteToPc(k.tonic) + semitones) % 12;
+  const letter = LETTERS[(LETTERS.indexOf(k.tonic.letter) + steps) % 7];
+  const byInterval = spellOnLetter(pc, letter);
+  const interval = byInterval ? formatKey({ tonic: byInterval, mode: k.mode }) : concertKey;
+
+  const twins = keyTonicOptions(k.mode)
+    .map((t) => parseNoteName(t))
+    .filter((t): t is NoteName => !!t && noteToPc(t) === pc)
+    .map((tonic) => formatKey({ tonic, mode: k.mode }));
+  return twins.reduce(
+    (best, key) => (keySignatureSize(key) < keySignatureSize(best) ? key : best),
+    interval
+  );
+}
+
+/**
+ * Concert chords (in `concertKey`) as written for the instrument.
+ */
+export function instrumentChordEvents(
+  chords: ChordEvent[],
+  concertKey: string,
+  instrument: Instrument | undefined,
+  spelling?: SpellingMode
+): ChordEvent[] {
+  if (!instrumentInfo(instrument).semitones) return chords;
+  return transposeChordEvents(chords, {
+    fromKey: concertKey,
+    toKey: writtenKey(concertKey, instrument),
+    spelling,
+  });
+}
@@ -0,0 +1,166 @@
+// src/lib/keys.ts
+import { parseNoteName, type NoteLetter, type NoteName } from "./chords/parse";
+import { noteToPc, spellOnLetter, type AccidentalStyle } from "./chords/spelling";
+import { formatNote } from "./chords/format";
+
+export type KeyMode = "major" | "minor" | "dorian" | "phrygian" | "lydian" | "mixolydian" | "locrian";
+
+export type MusicalKey = {
+  tonic: NoteName;
+  mode: KeyMode;
+};
+
+export const KEY_MODES: KeyMode[] = ["major", "minor", "dorian", "phrygian", "lydian", "mixolydian", "locrian"];
+
+// Semitones above the tonic for each scale degree.
+export const MODE_SCALES: Record<KeyMode, number[]> = {
+  major: [0, 2, 4, 5, 7, 9, 11],
+  dorian: [0, 2, 3, 5, 7, 9, 10],
+  phrygian: [0, 1, 3, 5, 7, 8, 10],
+  lydian: [0, 2, 4, 6, 7, 9, 11],
+  mixolydian: [0, 2, 4, 5, 7, 9, 10],
+  minor: [0, 2, 3, 5, 7, 8, 10],
+  locrian: [0, 1, 3, 5, 6, 8, 10],
+};
+
+// Scale degree of the mode's tonic within its parent major scale (0-based) and
+// its distance in semitones above the parent tonic: D dorian sits on degree 1 of C.
+const MODE_DEGREE: Record<KeyMode, { steps: number; semitones: number }> = {
+  major: { steps: 0, semitones: 0 },
+  dorian: { steps: 1, semitones: 2 },
+  phrygian: { steps: 2, semitones: 4 },
+  lydian: { steps: 3, semitones: 5 },
+  mixolydian: { steps: 4, semitones: 7 },
+  minor: { steps: 5, semitones: 9 },
+  locrian: { steps: 6, semitones: 11 },
+};
+
+// Major keys with a key signature of at most seven accidentals → accidental style.
+const MAJOR_KEY_STYLE: Record<string, AccidentalStyle> = {
+  C: "sharps",
+  G: "sharps",
+  D: "sharps",
+  A: "sharps",
+  E: "sharps",
+  B: "sharps",
+  "F#": "sharps",
+  "C#": "sharps",
+
+  F: "flats",
+  Bb: "flats",
+  Eb: "flats",
+  Ab: "flats",
+  Db: "flats",
+  Gb: "flats",
+  Cb: "flats",
+};
+
+const TONICS = ["C", "C#", "Db", "D", "D#", "Eb", "E", "F", "F#", "Gb", "G", "G#", "Ab", "A", "A#", "Bb", "B", "Cb"];
+
+const LETTERS: NoteLetter[] = ["C", "D", "E", "F", "G", "A", "B"];
+
+/**
+ * Key values as stored in `originalKey` / `displayKey`:
+ *   "C", "Bb" (major), "F#m" / "F# minor", "D dorian", "G mixolydian"
+ */
+export function parseKey(key: string): MusicalKey | null {
+  const m = key.trim().match(/^([A-Ga-g](?:##|bb|#|b)?)\s*(.*)$/);
+  if (!m) return null;
+
+  const tonic = parseNoteName(m[1]);
+  if (!tonic) return null;
+
+  const rest = m[2].trim().toLowerCase();
+  if (!rest || rest === "maj" || rest === "major" || rest === "ionian") return { tonic, mode: "major" };
+  if (rest === "m" || rest === "min" || rest === "minor" || rest === "aeolian") return { tonic, mode: "minor" };
+
+  const mode = KEY_MODES.find((x) => x === rest);
+  return mode ? { tonic, mode } : null;
+}
+
+export function formatKey(k: MusicalKey) {
+  const tonic = formatNote(k.tonic);
+  if (k.mode === "major") return tonic;
+  if (k.mode === "minor") return `${tonic}m`;
+  return `${tonic} ${k.mode}`;
+}
+
+/**
+ * Long form for headers: "C major", "F# minor", "D dorian".
+ */
+export function keyLabel(key: string) {
+  const k = parseKey(key);
+  return k ? `${formatNote(k.tonic)} ${k.mode}` : key;
+}
+
+/**
+ * The major key sharing this key's signature (A minor → C, D dorian → C).
+ */
+export function parentMajor(k: MusicalKey): NoteName {
+  const { steps, semitones } = MODE_DEGREE[k.mode];
+  const letter = LETTERS[(LETTERS.indexOf(k.tonic.letter) - steps + 7) % 7];
+  return spellOnLetter(noteToPc(k.tonic) - semitones, letter) ?? k.tonic;
+}
+
+export function keyAccidentalStyle(key: string): AccidentalStyle {
+  const k = parseKey(key);
+  if (!k) return "sharps";
+
+  const parent = parentMajor(k);
+  const known = MAJOR_KEY_STYLE[formatNote(parent)];
+  if (known) return known;
+  return parent.accidental.startsWith("b") ? "flats" : "sharps";
+}
+
+/**
+ * Sharps or flats in the key signature (C# major → 7, Db major → 5).
+ */
+export function keySignatureSize(key: string) {
+  const k = parseKey(key);
+  if (!k) return 99;
+  const parent = parentMajor(k);
+  const start = LETTERS.indexOf(parent.letter);
+  return MODE_SCALES.major.filter((step, i) => {
+    const note = spellOnLetter(noteToPc(parent) + step, LETTERS[(start + i) % 7]);
+    return !note || note.accidental !== "";
+  }).length;
+}
+
+export function keyTonicPc(key: string): number | null {
+  const k = parseKey(key);
+  return k ? noteToPc(k.tonic) : null;
+}
+
+/**
+ * Tonics offered for a mode: those whose key signature has at most seven
+ * accidentals (15 per mode, e.g. D#m but not D# major).
+ */
+export function keyTonicOptions(mode: KeyMode): string[] {
+  return TONICS.filter((t) => {
+    const tonic = parseNoteName(t);
+    return tonic ? !!MAJOR_KEY_STYLE[formatNote(parentMajor({ tonic, mode }))] : false;
+  });
+}
+
+/**
+ * Full key values for a mode ("Bb", "Gm", "D dorian"), one per `keyTonicOptions` tonic.
+ */
+export function keyOptions(mode: KeyMode): string[] {
+  return keyTonicOptions(mode)
+    .map((t) => parseNoteName(t))
+    .filter((t): t is NoteName => !!t)
+    .map((tonic) => formatKey({ tonic, mode }));
+}
+
+/**
+ * The key `semitones` above `key` in the same mode, named from `keyTonicOptions`
+ * (preferring `style` where a tonic has two names, e.g. F# / Gb).
+ */
+export function transposeKey(key: string, semitones: number, style = keyAccidentalStyle(key)): string {
+  const k = parseKey(key);
+  if (!k) return key;
+
+  const pc = (((noteToPc(k.tonic) + semitones) % 12) + 12) % 12;
+  const options = keyOptions(k.mode).filter((o) => keyTonicPc(o) === pc);
+  return options.find((o) => keyAccidentalStyle(o) === style) ?? options[0] ?? key;
+}
@@ -5,6 +5,7 @@ import type { LyricToken } from "./tokens";
 import { estWidthOfToken } from "./tokens";
 import { LYRIC_METRICS } from "./metrics";
 import { layoutOnlyBetweenAnchors } from "./layout";
+import { posOf } from "@/lib/timeline";
 
 type Range = { start: number; end: number }; // [start, end)
 
@@ -14,14 +15,14 @@ export function buildAnchorsBySystem(args: {
 }) {
   const { anchors, systemsTiming } = args;
   return systemsTiming.map(({ startCell, endCell }) =>
-    anchors.filter((a) => a.cell >= startCell && a.cell < endCell)
+    anchors.filter((a) => posOf(a) >= startCell && posOf(a) < endCell)
   );
 }
 
 /**
  * CHUNKING:
  * - STRICTLY forward-only (monotonic ranges)
- * - Fill by width
+ * - Fill by width (each system has its own width; bars vary in length with the meter)
  * - If this system contains anchored tokens (by timing), it may EXTEND the end to include them
  * - NEVER pulls start backward (prevents token “duplication / reordering” across systems)
  */
@@ -29,10 +30,10 @@ export function chunkTokensForwardOnly(args: {
   tokens: LyricToken[];
   anchors: LyricAnchor[];
   systems: { startCell: number; endCell: number }[];
-  systemWidthPx: number;
+  systemWidthsPx: number[];
   subdivision: number;
 }) {
-  const { tokens, anchors, systems, systemWidthPx } = args;
+  const { tokens, anchors, systems, systemWidthsPx } = args;
 
   // charIndex -> token index (word only)
   const tokenIndexByCharIndex = new Map<number, number>();
@@ -46,7 +47,7 @@ export function chunkTokensForwardOnly(args: {
     const { startCell, endCell } = systems[s];
     let maxTok = -1;
     for (const a of anchors) {
-      if (a.cell >= startCell && a.cell < endCell) {
+      if (posOf(a) >= startCell && posOf(a) < endCell) {
         const tokIdx = tokenIndexByCharIndex.get(a.charIndex);
         if (tokIdx !== undefined) maxTok = Math.max(maxTok, tokIdx);
       }
@@ -64,6 +65,7 @@ export function chunkTokensForwardOnly(args: {
     }
 
     // width fill
+    const systemWidthPx = systemWidthsPx[s] ?? 0;
     let used = 0;
     let end = ptr;
     while (end < tokens.length) {
@@ -155,9 +157,9 @@ export function reflowOverflowAcrossSystems(args: {
   anchorsBySystem: LyricAnchor[][];
   systemsTiming: { startCell: number; endCell: number }[];
   subdivision: number;
-  systemWidthPx: number;
+  systemWidthsPx: number[];
 }) {
-  const { initialChunks, anchorsBySystem, systemsTiming, subdivision, systemWidthPx } = args;
+  const { initialChunks, anchorsBySystem, systemsTiming, subdivision, systemWidthsPx } = args;
 
   // Start with editable copies
   let chunks: LyricToken[][] = initialChunks.map((c) => [...c]);
@@ -170,6 +172,7 @@ export function reflowOverflowAcrossSystems(args: {
     if (!chunks[s].length) continue;
 
     const systemBeats = (systemsTiming[s].endCell - systemsTiming[s].startCell) / subdivision;
+    const systemWidthPx = systemWidthsPx[s] ?? 0;
 
     const anchoredCharSet = new Set((anchorsBySystem[s] ?? []).map((a) => a.charIndex));
     let requiredMaxLocal = -1;
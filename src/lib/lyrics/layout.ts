@@ -1,6 +1,7 @@
 // src/lib/lyrics/layout.ts
 import type { LyricAnchor } from "@/lib/types";
 import type { LyricToken } from "@/lib/lyrics/tokens";
+import { posOf } from "@/lib/timeline";
 
 /**
  * Editor layout: returns pixel x positions for tokens in a system.
@@ -10,6 +11,9 @@ import type { LyricToken } from "@/lib/lyrics/tokens";
  * - Unanchored tokens: evenly spaced BETWEEN the surrounding anchored tokens,
  *   including the span from system start -> first anchor, and last anchor -> system end.
  *
+ * Cells are absolute section cells, so a pickup bar (which starts the section at cell 0)
+ * needs nothing special: its anchors map like any other.
+ *
  * This is intentionally "musical" spacing (even in time), not "text packing".
  * Print mode can inherit this as implicit anchors.
  */
@@ -27,7 +31,7 @@ export function layoutOnlyBetweenAnchors(args: {
 
   // Map charIndex -> anchor cell (ABS)
   const anchorCellByChar = new Map<number, number>();
-  for (const a of anchors) anchorCellByChar.set(a.charIndex, a.cell);
+  for (const a of anchors) anchorCellByChar.set(a.charIndex, posOf(a));
 
   // Helper: anchor cell -> x in px
   function cellToX(cellAbs: number) {
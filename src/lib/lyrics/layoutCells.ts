@@ -2,6 +2,7 @@
 import type { LyricAnchor } from "@/lib/types";
 import type { LyricToken } from "@/lib/lyrics/tokens";
 import { LYRIC_METRICS } from "@/lib/lyrics/metrics";
+import { posOf } from "@/lib/timeline";
 
 function clamp(n: number, min: number, max: number) {
   return Math.max(min, Math.min(max, n));
@@ -20,8 +21,8 @@ export function layoutOnlyBetweenAnchorsInCells(args: {
   tokens: LyricToken[];
   anchors: LyricAnchor[];
   systemStartCell: number;
-  systemCells: number; // total cells in this system window (barsInSystem * barCells)
-  pxPerCell: number; // barWidthPx / barCells
+  systemCells: number; // total cells in this system window (sum of bar.cells; a pickup bar is shorter)
+  pxPerCell: number; // bar width per cell (constant across bars)
 }) {
   const { tokens, anchors, systemStartCell, systemCells, pxPerCell } = args;
 
@@ -51,7 +52,7 @@ export function layoutOnlyBetweenAnchorsInCells(args: {
   for (const a of anchors) {
     const i = tokenIndexByCharIndex.get(a.charIndex);
     if (i === undefined) continue;
-    const local = a.cell - systemStartCell;
+    const local = posOf(a) - systemStartCell;
     anchorPoints.push({ i, c: clamp(local, 0, systemCells) });
   }
   anchorPoints.sort((a, b) => (a.i - b.i) || (a.c - b.c));
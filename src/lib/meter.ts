@@ -0,0 +1,72 @@
+// src/lib/meter.ts
+import type { TimeSignature } from "./types";
+
+/**
+ * Compound meters (6/8, 9/8, 12/8, ...) are felt in dotted-beat pulses of three
+ * eighths. The cell grid still counts `beatsPerBar` written beats (eighths);
+ * this module groups them into pulses for labels, grid weights and durations.
+ */
+export function isCompound(ts: TimeSignature) {
+  return ts.beatUnit >= 8 && ts.beatsPerBar > 3 && ts.beatsPerBar % 3 === 0;
+}
+
+/**
+ * Written beats per felt pulse: 3 in compound meters, else 1.
+ */
+export function beatsPerPulse(ts: TimeSignature) {
+  return isCompound(ts) ? 3 : 1;
+}
+
+export function pulsesPerBar(ts: TimeSignature) {
+  return ts.beatsPerBar / beatsPerPulse(ts);
+}
+
+/**
+ * Cells in one counted pulse. This is the unit of `G:2`-style durations:
+ * two quarter notes in 4/4, two dotted quarters in 6/8.
+ */
+export function pulseCells(ts: TimeSignature, subdivision: number) {
+  return beatsPerPulse(ts) * Math.max(1, subdivision);
+}
+
+export type GridLineWeight = "pulse" | "beat" | "sub";
+
+/**
+ * Weight of the grid line at the start of `cellInBar` (counted from a full bar's downbeat).
+ */
+export function gridLineWeight(cellInBar: number, ts: TimeSignature, subdivision: number): GridLineWeight {
+  const sub = Math.max(1, subdivision);
+  if (cellInBar % pulseCells(ts, sub) === 0) return "pulse";
+  if (cellInBar % sub === 0) return "beat";
+  return "sub";
+}
+
+/**
+ * Count label for a cell (counted from a full bar's downbeat):
+ *   simple:   1 & 2 & ...
+ *   compound: 1 & a 2 & a ... (one syllable per eighth, pulse numbers on the dotted beats)
+ * Cells between written beats are "·" in compound meters, "&" in simple ones.
+ */
+export function countLabel(cellInBar: number, ts: TimeSignature, subdivision: number) {
+  const sub = Math.max(1, subdivision);
+  const beat = Math.floor(cellInBar / sub);
+  const subPos = cellInBar % sub;
+
+  if (!isCompound(ts)) {
+    return subPos === 0 ? `${beat + 1}` : "&";
+  }
+
+  if (subPos !== 0) return "·";
+
+  const pulse = Math.floor(beat / 3) + 1;
+  const inPulse = beat % 3;
+  return inPulse === 0 ? `${pulse}` : inPulse === 1 ? "&" : "a";
+}
+
+/**
+ * Count labels for one full bar, e.g. "1 & 2 & 3 & 4 &" or "1 & a 2 & a".
+ */
+export function countLabelsForBar(ts: TimeSignature, subdivision: number) {
+  const cells = Math.max(1, ts.beatsPerBar) * Math.max(1, subdivision);
+  return Array.from({ length: cells }, (_, i) => countLabel(i, ts, subdivision));
+}
@@ -0,0 +1,57 @@
+// src/lib/navigation.test.ts
+import { describe, expect, it } from "vitest";
+import { expandPlayOrder } from "./navigation";
+
+describe("expandPlayOrder", () => {
+  it("plays straight through without markup", () => {
+    expect(expandPlayOrder(3)).toEqual([0, 1, 2]);
+  });
+
+  it("repeats from the start when there is no |:", () => {
+    expect(expandPlayOrder(3, [{ barIndex: 1, repeatEnd: true }])).toEqual([0, 1, 0, 1, 2]);
+  });
+
+  it("takes first and second endings", () => {
+    const order = expandPlayOrder(5, [
+      { barIndex: 0, repeatStart: true },
+      { barIndex: 2, volta: [1], repeatEnd: true },
+      { barIndex: 3, volta: [2] },
+    ]);
+    expect(order).toEqual([0, 1, 2, 0, 1, 3, 4]);
+  });
+
+  it("plays a shared ending on the passes it lists", () => {
+    const order = expandPlayOrder(4, [
+      { barIndex: 1, volta: [1, 2], repeatEnd: true, repeatTimes: 3 },
+      { barIndex: 2, volta: [3] },
+    ]);
+    expect(order).toEqual([0, 1, 0, 1, 0, 2, 3]);
+  });
+
+  it("D.C. al Fine goes back to the start and stops at Fine", () => {
+    const order = expandPlayOrder(4, [
+      { barIndex: 1, fine: true },
+      { barIndex: 3, jump: "D.C. al Fine" },
+    ]);
+    expect(order).toEqual([0, 1, 2, 3, 0, 1]);
+  });
+
+  it("D.S. al Coda jumps to the Segno and leaves at To Coda", () => {
+    const order = expandPlayOrder(6, [
+      { barIndex: 1, segno: true },
+      { barIndex: 2, toCoda: true },
+      { barIndex: 3, jump: "D.S. al Coda" },
+      { barIndex: 5, coda: true },
+    ]);
+    expect(order).toEqual([0, 1, 2, 3, 1, 2, 5]);
+  });
+
+  it("skips repeats after a jump and plays the last ending", () => {
+    const order = expandPlayOrder(5, [
+      { barIndex: 1, volta: [1], repeatEnd: true },
+      { barIndex: 2, volta: [2] },
+      { barIndex: 3, jump: "D.C." },
+    ]);
+    expect(order).toEqual([0, 1, 0, 2, 3, 0, 2, 3, 4]);
+  });
+});
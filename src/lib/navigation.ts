@@ -0,0 +1,193 @@
+// src/lib/navigation.ts
+import type { BarNavigation, NavigationJump } from "./types";
+
+/**
+ * Resolve navigation markup into the linear order bars are actually played.
+ * Returns bar indices (0-based), e.g. |: 0 1 [1. 2] :| [2. 3] 4 -> 0 1 2 0 1 3 4.
+ *
+ * Conventions (the common "lead sheet" reading):
+ * - |: ... :| plays `repeatTimes` passes (default 2). A missing |: repeats from the start.
+ * - Volta bars only play on the passes listed in their bracket.
+ * - D.C. jumps to bar 0, D.S. to the Segno; each jump is taken once.
+ * - After a D.C./D.S. repeats are not taken again and the last ending is played.
+ * - "al Fine" stops at the first Fine bar; "al Coda" leaves at "To Coda" for the Coda bar.
+ */
+export function expandPlayOrder(barCount: number, navigation: BarNavigation[] = []): number[] {
+  if (barCount <= 0) return [];
+
+  const nav = new Map<number, BarNavigation>();
+  for (const n of navigation) {
+    if (n.barIndex >= 0 && n.barIndex < barCount) nav.set(n.barIndex, n);
+  }
+
+  const segnoIdx = findBar(barCount, nav, (n) => !!n.segno) ?? 0;
+  const codaIdx = findBar(barCount, nav, (n) => !!n.coda);
+  const lastEnding = lastEndingByBar(barCount, nav);
+
+  const out: number[] = [];
+  const takenByRepeatEnd = new Map<number, number>();
+
+  let i = 0;
+  let repeatStartIdx = 0;
+  let pass = 1;
+  let lastRepeatEndIdx = -1;
+
+  let jumped = false;
+  let seekFine = false;
+  let seekCoda = false;
+
+  // Hard cap in case of contradictory markup (e.g. a repeat that can never finish).
+  const maxSteps = barCount * 64;
+
+  while (i < barCount && out.length < maxSteps) {
+    const n = nav.get(i);
+
+    // Past a finished repeat: later bars start a fresh pass count.
+    if (pass > 1 && i > lastRepeatEndIdx && !n?.volta?.length) {
+      pass = 1;
+      repeatStartIdx = i;
+    }
+
+    if (n?.repeatStart && pass === 1) repeatStartIdx = i;
+
+    if (n?.volta?.length) {
+      const plays = jumped ? n.volta.includes(lastEnding.get(i) ?? 0) : n.volta.includes(pass);
+      if (!plays) {
+        i++;
+        continue;
+      }
+    }
+
+    out.push(i);
+
+    if (seekFine && n?.fine) break;
+
+    if (seekCoda && n?.toCoda && codaIdx !== null) {
+      seekCoda = false;
+      i = codaIdx;
+      continue;
+    }
+
+    if (n?.repeatEnd && !jumped) {
+      const taken = takenByRepeatEnd.get(i) ?? 0;
+      const times = Math.max(2, Math.floor(n.repeatTimes ?? 2));
+      if (taken + 1 < times) {
+        takenByRepeatEnd.set(i, taken + 1);
+        pass = taken + 2;
+        lastRepeatEndIdx = Math.max(lastRepeatEndIdx, i);
+        i = repeatStartIdx;
+        continue;
+      }
+      repeatStartIdx = i + 1;
+    }
+
+    if (n?.jump && !jumped) {
+      jumped = true;
+      seekFine = isAlFine(n.jump);
+      seekCoda = isAlCoda(n.jump);
+      pass = 1;
+      i = n.jump.startsWith("D.S.") ? segnoIdx : 0;
+      continue;
+    }
+
+    i++;
+  }
+
+  return out;
+}
+
+function isAlFine(jump: NavigationJump) {
+  return jump.endsWith("al Fine");
+}
+
+function isAlCoda(jump: NavigationJump) {
+  return jump.endsWith("al Coda");
+}
+
+function findBar(
+  barCount: number,
+  nav: Map<number, BarNavigation>,
+  pred: (n: BarNavigation) => boolean
+): number | null {
+  for (let i = 0; i < barCount; i++) {
+    const n = nav.get(i);
+    if (n && pred(n)) return i;
+  }
+  return null;
+}
+
+/**
+ * For each volta bar: the highest ending number in its run of consecutive volta bars.
+ */
+function lastEndingByBar(barCount: number, nav: Map<number, BarNavigation>) {
+  const out = new Map<number, number>();
+  let i = 0;
+  while (i < barCount) {
+    if (!nav.get(i)?.volta?.length) {
+      i++;
+      continue;
+    }
+
+    let j = i;
+    let max = 0;
+    while (j < barCount && nav.get(j)?.volta?.length) {
+      max = Math.max(max, ...(nav.get(j)!.volta as number[]));
+      j++;
+    }
+    for (let k = i; k < j; k++) out.set(k, max);
+    i = j;
+  }
+  return out;
+}
+
+/**
+ * Set (or clear, when `patch` empties it) the navigation entry for one bar.
+ */
+export function setBarNavigation(
+  navigation: BarNavigation[] | undefined,
+  barIndex: number,
+  patch: Partial<Omit<BarNavigation, "barIndex">>
+): BarNavigation[] {
+  const list = navigation ?? [];
+  const prev = list.find((n) => n.barIndex === barIndex) ?? { barIndex };
+  const merged: BarNavigation = { ...prev, ...patch };
+
+  const rest = list.filter((n) => n.barIndex !== barIndex);
+  if (!hasNavigation(merged)) return rest;
+  return [...rest, merged].sort((a, b) => a.barIndex - b.barIndex);
+}
+
+export function hasNavigation(n: BarNavigation | undefined) {
+  if (!n) return false;
+  return !!(
+    n.repeatStart ||
+    n.repeatEnd ||
+    n.volta?.length ||
+    n.segno ||
+    n.coda ||
+    n.toCoda ||
+    n.jump ||
+    n.fine
+  );
+}
+
+export const SEGNO_GLYPH = "𝄋";
+export const CODA_GLYPH = "𝄌";
+
+/**
+ * Text for the marks drawn at the start / end of a bar (editor header and print).
+ */
+export function navigationLabels(n: BarNavigation | undefined) {
+  const start: string[] = [];
+  const end: string[] = [];
+  if (!n) return { start, end };
+
+  if (n.segno) start.push(SEGNO_GLYPH);
+  if (n.coda) start.push(CODA_GLYPH);
+
+  if (n.toCoda) end.push(`To ${CODA_GLYPH}`);
+  if (n.fine) end.push("Fine");
+  if (n.jump) end.push(n.jump);
+
+  return { start, end };
+}
@@ -0,0 +1,118 @@
+// src/lib/rescale.test.ts
+import { describe, expect, it } from "vitest";
+import type { ChordEvent, Section } from "./types";
+import { changeBeatUnit, rescaleSubdivision, resizeBars } from "./rescale";
+
+const FOUR_FOUR = { beatsPerBar: 4, beatUnit: 4 };
+
+function section(chords: Omit<ChordEvent, "id">[], extra: Partial<Section> = {}): Section {
+  return {
+    id: "s",
+    name: "Verse",
+    lyrics: "",
+    chords: chords.map((c, i) => ({ id: `c${i}`, ...c })),
+    anchors: [],
+    ...extra,
+  };
+}
+
+const at = (s: Section) => s.chords.map((c) => [c.symbol, c.cell, c.offset ?? null]);
+
+describe("rescaleSubdivision", () => {
+  it("keeps musical time when the grid gets finer", () => {
+    const { sections, report } = rescaleSubdivision(
+      [section([{ cell: 0, symbol: "G" }, { cell: 3, symbol: "C" }])],
+      2,
+      4
+    );
+    expect(at(sections[0])).toEqual([
+      ["G", 0, null],
+      ["C", 6, null],
+    ]);
+    expect(report).toMatchObject({ moved: 1, offGrid: 0 });
+  });
+
+  it("keeps off-grid events at their exact time", () => {
+    const { sections, report } = rescaleSubdivision([section([{ cell: 3, symbol: "C" }])], 2, 3);
+    expect(at(sections[0])).toEqual([["C", 4, { num: 1, den: 2 }]]);
+    expect(report.offGrid).toBe(1);
+  });
+
+  it("returns the same sections when nothing changes", () => {
+    const sections = [section([{ cell: 1, symbol: "G" }])];
+    expect(rescaleSubdivision(sections, 2, 2).sections).toBe(sections);
+  });
+});
+
+describe("resizeBars", () => {
+  const chords = [
+    { cell: 0, symbol: "G" },
+    { cell: 6, symbol: "D" },
+    { cell: 8, symbol: "C" },
+  ];
+
+  it("'bars' keeps each chord in its bar and drops what no longer fits", () => {
+    const { sections, report } = resizeBars([section(chords)], {
+      timeSignature: FOUR_FOUR,
+      beatsPerBar: 3,
+      subdivision: 2,
+      mode: "bars",
+    });
+    expect(at(sections[0])).toEqual([
+      ["G", 0, null],
+      ["C", 6, null],
+    ]);
+    expect(report.moved).toBe(1);
+    expect(report.droppedChords.map((c) => c.symbol)).toEqual(["D"]);
+  });
+
+  it("'bars' pads longer bars with empty beats", () => {
+    const { sections } = resizeBars([section(chords)], {
+      timeSignature: FOUR_FOUR,
+      beatsPerBar: 5,
+      subdivision: 2,
+      mode: "bars",
+    });
+    expect(at(sections[0])).toEqual([
+      ["G", 0, null],
+      ["D", 6, null],
+      ["C", 10, null],
+    ]);
+  });
+
+  it("'beats' leaves events in place and counts those that change bar", () => {
+    const input = [section(chords)];
+    const { sections, report } = resizeBars(input, {
+      timeSignature: FOUR_FOUR,
+      beatsPerBar: 3,
+      subdivision: 2,
+      mode: "beats",
+    });
+    expect(sections[0]).toBe(input[0]);
+    expect(report).toMatchObject({ moved: 1, droppedChords: [] }); // only D moves into the next bar
+  });
+
+  it("leaves bars after a meter change alone", () => {
+    const { sections } = resizeBars(
+      [
+        section([{ cell: 8, symbol: "C" }, { cell: 14, symbol: "F" }], {
+          meterChanges: [{ barIndex: 1, timeSignature: { beatsPerBar: 4, beatUnit: 4 } }],
+        }),
+      ],
+      { timeSignature: FOUR_FOUR, beatsPerBar: 3, subdivision: 2, mode: "bars" }
+    );
+    expect(at(sections[0])).toEqual([
+      ["C", 6, null],
+      ["F", 12, null],
+    ]);
+  });
+});
+
+describe("changeBeatUnit", () => {
+  it("moves nothing", () => {
+    const sections = [section([{ cell: 3, symbol: "G" }])];
+    const { sections: next, report } = changeBeatUnit(sections);
+    expect(next).toBe(sections);
+    expect(report).toMatchObject({ moved: 0, offGrid: 0, droppedChords: [], droppedAnchors: [] });
+  });
+});
@@ -0,0 +1,135 @@
+// src/lib/rescale.ts
+import type { ChordEvent, LyricAnchor, Section, TimeSignature } from "./types";
+import { barAtCell, fullBarCount, sectionBarTable, type BarInfo } from "./bars";
+import { posOf, scalePos, shiftPos } from "./timeline";
+
+/**
+ * What a grid change does to the stored events, shown before it is applied.
+ */
+export type RescaleReport = {
+  moved: number; // chords/anchors whose cell (or, for "beats", bar) changes
+  offGrid: number; // events that end up between grid cells
+  droppedChords: ChordEvent[];
+  droppedAnchors: LyricAnchor[];
+};
+
+export type RescaleResult = {
+  sections: Section[];
+  report: RescaleReport;
+};
+
+/**
+ * "bars": every event keeps its bar and its place in the bar; bars get shorter
+ * (events past the new barline are dropped) or longer (padded with empty beats).
+ * "beats": events keep their absolute beat and the barlines move around them.
+ */
+export type BarResizeMode = "bars" | "beats";
+
+function emptyReport(): RescaleReport {
+  return { moved: 0, offGrid: 0, droppedChords: [], droppedAnchors: [] };
+}
+
+/**
+ * Remap every chord and anchor from `from` to `to` cells per beat so they keep
+ * their musical time. Pickups, meter changes and tuplets are counted in beats or
+ * bars and need no change.
+ */
+export function rescaleSubdivision(sections: Section[], from: number, to: number): RescaleResult {
+  const report = emptyReport();
+  const prev = Math.max(1, from);
+  const next = Math.max(1, to);
+  if (prev === next) return { sections, report };
+
+  function remap<T extends ChordEvent | LyricAnchor>(e: T): T {
+    const scaled = scalePos(e, next, prev);
+    if (posOf(scaled) !== posOf(e)) report.moved++;
+    if (scaled.offset && !e.offset) report.offGrid++;
+    return scaled;
+  }
+
+  return {
+    sections: sections.map((s) => ({
+      ...s,
+      chords: s.chords.map(remap),
+      anchors: s.anchors.map(remap),
+    })),
+    report,
+  };
+}
+
+function eventsBarTable(section: Section, timeSignature: TimeSignature, subdivision: number, barCount?: number) {
+  return sectionBarTable({
+    chords: section.chords,
+    anchors: section.anchors,
+    timeSignature,
+    subdivision,
+    meterChanges: section.meterChanges,
+    pickupBeats: section.pickupBeats,
+    barCount: barCount ?? section.barCount,
+  });
+}
+
+/**
+ * Change the doc's beats per bar. Bars that follow a section meter change keep
+ * their own meter; only bars in the doc meter change length.
+ */
+export function resizeBars(
+  sections: Section[],
+  args: { timeSignature: TimeSignature; beatsPerBar: number; subdivision: number; mode: BarResizeMode }
+): RescaleResult {
+  const { timeSignature, subdivision, mode } = args;
+  const report = emptyReport();
+  const nextTs: TimeSignature = { ...timeSignature, beatsPerBar: Math.max(1, args.beatsPerBar) };
+  if (nextTs.beatsPerBar === timeSignature.beatsPerBar) return { sections, report };
+
+  const nextSections = sections.map((s) => {
+    const oldTable = eventsBarTable(s, timeSignature, subdivision);
+    const newTable = eventsBarTable(s, nextTs, subdivision, fullBarCount(oldTable));
+
+    if (mode === "beats") {
+      for (const e of [...s.chords, ...s.anchors]) {
+        const pos = posOf(e);
+        if (barAtCell(oldTable, pos)?.barIndex !== barAtCell(newTable, pos)?.barIndex) report.moved++;
+      }
+      return s;
+    }
+
+    // Keep each event in its bar; null = it no longer fits.
+    function keepInBar<T extends ChordEvent | LyricAnchor>(e: T): T | null {
+      const pos = posOf(e);
+      const oldBar = barAtCell(oldTable, pos) as BarInfo;
+      const newBar = newTable[oldBar.barIndex];
+      if (!newBar || pos - oldBar.startCell >= newBar.cells) return null;
+
+      const shift = newBar.startCell - oldBar.startCell;
+      if (shift !== 0) report.moved++;
+      return shiftPos(e, shift);
+    }
+
+    const chords: ChordEvent[] = [];
+    for (const c of s.chords) {
+      const kept = keepInBar(c);
+      if (kept) chords.push(kept);
+      else report.droppedChords.push(c);
+    }
+
+    const anchors: LyricAnchor[] = [];
+    for (const a of s.anchors) {
+      const kept = keepInBar(a);
+      if (kept) anchors.push(kept);
+      else report.droppedAnchors.push(a);
+    }
+
+    return { ...s, chords, anchors };
+  });
+
+  return { sections: nextSections, report };
+}
+
+/**
+ * Change the doc's beat unit. A bar keeps its cells, so no event moves; what changes
+ * is how beats are counted (6/8 counts dotted quarters), and with it what `G:2` means.
+ */
+export function changeBeatUnit(sections: Section[]): RescaleResult {
+  return { sections, report: emptyReport() };
+}
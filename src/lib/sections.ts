@@ -0,0 +1,144 @@
+// src/lib/sections.ts
+import type { Section, TimeSignature } from "./types";
+import { fullBarCount, pickupCellsFor, sectionBarTable } from "./bars";
+import { posOf, shiftPos } from "./timeline";
+
+export const SECTION_KINDS = ["Intro", "Verse", "Pre-Chorus", "Chorus", "Bridge", "Tag", "Outro"];
+
+export function newSection(name: string): Section {
+  return { id: crypto.randomUUID(), name, lyrics: "", chords: [], anchors: [] };
+}
+
+/**
+ * Picks the next free numbered name for a section kind:
+ *   "Verse" -> "Verse 1", "Verse 2", ...
+ * Kinds that usually appear once (Chorus, Bridge, ...) get no number until a second one exists.
+ */
+export function nextSectionName(sections: Section[], kind: string): string {
+  const numbered = kind === "Verse";
+  const taken = new Set(sections.map((s) => s.name));
+
+  if (!numbered && !taken.has(kind)) return kind;
+
+  for (let n = numbered ? 1 : 2; ; n++) {
+    const candidate = `${kind} ${n}`;
+    if (!taken.has(candidate)) return candidate;
+  }
+}
+
+export function updateSection(
+  sections: Section[],
+  id: string,
+  patch: Partial<Omit<Section, "id">>
+): Section[] {
+  return sections.map((s) => (s.id === id ? { ...s, ...patch } : s));
+}
+
+export function moveSection(sections: Section[], id: string, dir: -1 | 1): Section[] {
+  const idx = sections.findIndex((s) => s.id === id);
+  const target = idx + dir;
+  if (idx === -1 || target < 0 || target >= sections.length) return sections;
+
+  const next = [...sections];
+  [next[idx], next[target]] = [next[target], next[idx]];
+  return next;
+}
+
+/**
+ * Deep copy with fresh ids (section, chords and anchors) inserted right after the original.
+ */
+export function duplicateSection(sections: Section[], id: string): { sections: Section[]; copy: Section | null } {
+  const idx = sections.findIndex((s) => s.id === id);
+  if (idx === -1) return { sections, copy: null };
+
+  const src = sections[idx];
+  const copy: Section = {
+    ...src,
+    id: crypto.randomUUID(),
+    name: `${src.name} (copy)`,
+    chords: src.chords.map((c) => ({ ...c, id: crypto.randomUUID() })),
+    anchors: src.anchors.map((a) => ({ ...a, id: crypto.randomUUID() })),
+  };
+
+  const next = [...sections];
+  next.splice(idx + 1, 0, copy);
+  return { sections: next, copy };
+}
+
+/**
+ * Never removes the last remaining section (the editor always needs one to work on).
+ */
+export function removeSection(sections: Section[], id: string): Section[] {
+  if (sections.length <= 1) return sections;
+  return sections.filter((s) => s.id !== id);
+}
+
+/**
+ * Add, resize or remove a section's pickup while keeping bar 1 where it was musically:
+ * chords and anchors shift by the change in pickup length, and bar-indexed markup
+ * (navigation, meter changes) moves by one bar when a pickup appears or disappears.
+ * Chords that would fall before the new start are dropped; anchors there are removed
+ * (their words simply become unanchored).
+ */
+export function setSectionPickup(section: Section, pickupBeats: number, subdivision: number): Section {
+  const nextBeats = Number.isFinite(pickupBeats) && pickupBeats > 0 ? pickupBeats : 0;
+
+  const prevCells = pickupCellsFor(section.pickupBeats, subdivision);
+  const nextCells = pickupCellsFor(nextBeats, subdivision);
+  const cellShift = nextCells - prevCells;
+  const barShift = (nextCells > 0 ? 1 : 0) - (prevCells > 0 ? 1 : 0);
+
+  return {
+    ...section,
+    pickupBeats: nextBeats || undefined,
+    chords: section.chords.map((c) => shiftPos(c, cellShift)).filter((c) => c.cell >= 0),
+    anchors: section.anchors.map((a) => shiftPos(a, cellShift)).filter((a) => a.cell >= 0),
+    tuplets: section.tuplets
+      ?.map((t) => ({ ...t, barIndex: t.barIndex + barShift }))
+      .filter((t) => t.barIndex >= 0),
+    navigation: section.navigation
+      ?.map((n) => ({ ...n, barIndex: n.barIndex + barShift }))
+      .filter((n) => n.barIndex >= 0),
+    meterChanges: section.meterChanges
+      ?.map((m) => ({ ...m, barIndex: m.barIndex + barShift }))
+      .filter((m) => m.barIndex >= 0),
+  };
+}
+
+/**
+ * Set how many full bars a section has. Shrinking removes the trailing bars with
+ * everything in them: chords are deleted, anchors removed (their words stay in
+ * the lyrics) and bar-indexed markup past the end dropped.
+ */
+export function setSectionBarCount(
+  section: Section,
+  barCount: number,
+  timeSignature: TimeSignature,
+  subdivision: number
+): Section {
+  const nextCount = Math.max(1, Math.floor(barCount) || 1);
+
+  const table = sectionBarTable({
+    chords: section.chords,
+    anchors: section.anchors,
+    timeSignature,
+    subdivision,
+    meterChanges: section.meterChanges,
+    pickupBeats: section.pickupBeats,
+  });
+
+  const keepBars = table.length - fullBarCount(table) + nextCount;
+  if (keepBars >= table.length) return { ...section, barCount: nextCount };
+
+  const endCell = table[keepBars].startCell;
+
+  return {
+    ...section,
+    barCount: nextCount,
+    chords: section.chords.filter((c) => posOf(c) < endCell),
+    anchors: section.anchors.filter((a) => posOf(a) < endCell),
+    navigation: section.navigation?.filter((n) => n.barIndex < keepBars),
+    meterChanges: section.meterChanges?.filter((m) => m.barIndex < keepBars),
+    tuplets: section.tuplets?.filter((t) => t.barIndex < keepBars),
+  };
+}
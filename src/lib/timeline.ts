@@ -0,0 +1,76 @@
+// src/lib/timeline.ts
+import type { CellOffset } from "./types";
+
+/**
+ * A point on the section timeline: a grid cell plus an optional exact fraction of
+ * a cell (tuplet positions). Chord events and lyric anchors both carry one.
+ */
+export type GridPos = {
+  cell: number;
+  offset?: CellOffset;
+};
+
+/**
+ * Absolute position in (possibly fractional) cells. Use this, not `.cell`, for
+ * ordering, bar membership and x-mapping.
+ */
+export function posOf(p: GridPos) {
+  return p.offset ? p.cell + p.offset.num / p.offset.den : p.cell;
+}
+
+export function samePos(a: GridPos, b: GridPos) {
+  if (a.cell !== b.cell) return false;
+  const an = a.offset?.num ?? 0;
+  const ad = a.offset?.den ?? 1;
+  const bn = b.offset?.num ?? 0;
+  const bd = b.offset?.den ?? 1;
+  return an * bd === bn * ad;
+}
+
+export function comparePos(a: GridPos, b: GridPos) {
+  return posOf(a) - posOf(b);
+}
+
+/**
+ * Exact position `baseCell + num / den` cells, normalised so the offset is a
+ * reduced proper fraction (or absent when it lands on a cell).
+ */
+export function gridPos(baseCell: number, num = 0, den = 1): GridPos {
+  const whole = Math.floor(num / den);
+  let n = num - whole * den;
+  let d = den;
+
+  const g = gcd(n, d);
+  if (g > 1) {
+    n /= g;
+    d /= g;
+  }
+
+  const cell = baseCell + whole;
+  return n === 0 ? { cell } : { cell, offset: { num: n, den: d } };
+}
+
+/**
+ * Move a position by a whole number of cells, keeping its offset.
+ */
+export function shiftPos<T extends GridPos>(p: T, cells: number): T {
+  return { ...p, cell: p.cell + cells };
+}
+
+/**
+ * Multiply a position by `num / den` exactly (e.g. a subdivision change from
+ * `den` to `num` cells per beat). Results between cells keep an offset.
+ */
+export function scalePos<T extends GridPos>(p: T, num: number, den: number): T {
+  const { offset, ...rest } = p;
+  const d = offset?.den ?? 1;
+  const n = offset?.num ?? 0;
+  return { ...rest, ...gridPos(0, (p.cell * d + n) * num, d * den) } as T;
+}
+
+function gcd(a: number, b: number): number {
+  a = Math.abs(a);
+  b = Math.abs(b);
+  while (b) [a, b] = [b, a % b];
+  return a || 1;
+}
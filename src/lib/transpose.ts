@@ -1,91 +1,110 @@
-const SHARPS = ["C","C#","D","D#","E","F","F#","G","G#","A","A#","B"] as const;
-const FLATS  = ["C","Db","D","Eb","E","F","Gb","G","Ab","A","Bb","B"] as const;
-
-export type AccidentalStyle = "sharps" | "flats";
-
-export const NOTE_TO_PC: Record<string, number> = {
-  C: 0, "B#": 0,
-  "C#": 1, Db: 1,
-  D: 2,
-  "D#": 3, Eb: 3,
-  E: 4, Fb: 4,
-  F: 5, "E#": 5,
-  "F#": 6, Gb: 6,
-  G: 7,
-  "G#": 8, Ab: 8,
-  A: 9,
-  "A#": 10, Bb: 10,
-  B: 11, Cb: 11,
-};
+import type { ChordEvent, Section } from "./types";
+import { parseChordSymbol, parseNoteName, type NoteName } from "./chords/parse";
+import { formatChord, formatNote } from "./chords/format";
+import { transposeNoteInKey, type SpellingMode } from "./chords/spelling";
+import { keyAccidentalStyle, keyTonicPc, parseKey } from "./keys";
+
+export type { AccidentalStyle } from "./chords/spelling";
 
-// Common major keys → preferred accidental style
-export const KEY_TO_STYLE: Record<string, AccidentalStyle> = {
-  C: "sharps",
-  G: "sharps",
-  D: "sharps",
-  A: "sharps",
-  E: "sharps",
-  B: "sharps",
-  "F#": "sharps",
-  "C#": "sharps",
-
-  F: "flats",
-  Bb: "flats",
-  Eb: "flats",
-  Ab: "flats",
-  Db: "flats",
-  Gb: "flats",
-  Cb: "flats",
+/**
+ * A key change for display or storage. Notes keep their scale degree (see
+ * transposeNoteInKey), so the target key decides the spelling.
+ */
+export type Transposition = {
+  fromKey: string;
+  toKey: string;
+  spelling?: SpellingMode;
 };
 
+export function keyTonic(key: string): NoteName | null {
+  return parseKey(key)?.tonic ?? null;
+}
+
+/**
+ * Chords as displayed: transposed, with roots normalised through the chord parser
+ * (so "am7" shows as "Am7" even without transposition).
+ */
+export function transposeChordEvents(chords: ChordEvent[], t: Transposition): ChordEvent[] {
+  return chords.map((c) => ({ ...c, symbol: transposeChordSymbol(c.symbol, t) }));
+}
+
+/**
+ * Semitones up from one key's tonic to the other's (F#m → Am = 3, D dorian → E dorian = 2).
+ */
 export function semitoneDelta(fromKey: string, toKey: string): number {
-  const fromPc = NOTE_TO_PC[fromKey];
-  const toPc = NOTE_TO_PC[toKey];
-  if (fromPc === undefined || toPc === undefined) return 0;
+  const fromPc = keyTonicPc(fromKey);
+  const toPc = keyTonicPc(toKey);
+  if (fromPc === null || toPc === null) return 0;
   return mod(toPc - fromPc, 12);
 }
 
-export function transposeChordSymbol(
-  symbol: string,
-  semitones: number,
-  style: AccidentalStyle
-): string {
-  const trimmed = symbol.trim();
-  if (!trimmed) return symbol;
+// Leading root, anything, optional slash bass: the fallback for symbols the parser rejects.
+const ROOT_AND_BASS = /^([A-G](?:##|bb|#|b|♯|♭)?)(.*?)(?:\/([A-G](?:##|bb|#|b|♯|♭)?))?$/;
+
+/**
+ * Transpose a chord symbol: root and bass move, the written suffix is kept.
+ * Symbols that don't parse still get their leading root and slash bass moved
+ * (anything else comes back unchanged); "N.C." stays "N.C.".
+ */
+export function transposeChordSymbol(symbol: string, t: Transposition): string {
+  const from = keyTonic(t.fromKey);
+  const to = keyTonic(t.toKey);
+  const opts = { style: keyAccidentalStyle(t.toKey), mode: t.spelling };
+  const move = (note: NoteName) => (from && to ? transposeNoteInKey(note, from, to, opts) : note);
 
-  const [main, bass] = trimmed.split("/");
+  const parsed = parseChordSymbol(symbol);
+  if (!parsed.ok) {
+    const m = symbol.trim().match(ROOT_AND_BASS);
+    const root = m && parseNoteName(m[1]);
+    if (!m || !root) return symbol;
+    const bass = m[3] ? parseNoteName(m[3]) : null;
+    return `${formatNote(move(root))}${m[2]}${bass ? `/${formatNote(move(bass))}` : ""}`;
+  }
 
-  const transMain = transposeRootInChord(main, semitones, style);
-  const transBass = bass ? transposeNoteToken(bass, semitones, style) : "";
+  const chord = parsed.chord;
+  if (chord.kind === "noChord") return formatChord(chord);
+  if (!from || !to) return formatChord(chord);
 
-  return bass ? `${transMain}/${transBass}` : transMain;
+  return formatChord({
+    ...chord,
+    root: move(chord.root),
+    bass: chord.bass ? move(chord.bass) : undefined,
+  });
 }
 
-function transposeRootInChord(
-  chord: string,
-  semitones: number,
-  style: AccidentalStyle
-): string {
-  const m = chord.match(/^([A-G])([#b]?)(.*)$/);
-  if (!m) return chord;
+export type RekeyChange = {
+  from: string;
+  to: string;
+  count: number; // chord events with this symbol
+};
 
-  const rootToken = `${m[1]}${m[2] || ""}`;
-  const rest = m[3] || "";
+export type RekeyResult = {
+  sections: Section[];
+  changes: RekeyChange[]; // distinct symbols whose text changes, in order of first appearance
+};
 
-  const newRoot = transposeNoteToken(rootToken, semitones, style);
-  return `${newRoot}${rest}`;
-}
+/**
+ * Rewrite every stored chord from `fromKey` into `toKey` with key-aware spelling
+ * (the permanent version of the display transposition).
+ */
+export function rekeySections(sections: Section[], fromKey: string, toKey: string): RekeyResult {
+  const changes = new Map<string, RekeyChange>();
 
-function transposeNoteToken(
-  note: string,
-  semitones: number,
-  style: AccidentalStyle
-): string {
-  const pc = NOTE_TO_PC[note.trim()];
-  if (pc === undefined) return note;
+  const next = sections.map((s) => ({
+    ...s,
+    chords: s.chords.map((c) => {
+      const symbol = transposeChordSymbol(c.symbol, { fromKey, toKey, spelling: "key" });
+      if (symbol !== c.symbol) {
+        const key = `${c.symbol} → ${symbol}`;
+        const change = changes.get(key);
+        if (change) change.count++;
+        else changes.set(key, { from: c.symbol, to: symbol, count: 1 });
+      }
+      return symbol === c.symbol ? c : { ...c, symbol };
+    }),
+  }));
 
-  const next = mod(pc + semitones, 12);
-  return style === "flats" ? FLATS[next] : SHARPS[next];
+  return { sections: next, changes: Array.from(changes.values()) };
 }
 
 function mod(n: number, m: number) {
@@ -0,0 +1,132 @@
+// src/lib/tuplets.ts
+import type { TimeSignature, TupletSpan } from "./types";
+import type { BarInfo } from "./bars";
+import { countLabel, gridLineWeight, type GridLineWeight } from "./meter";
+import { gridPos, posOf, type GridPos } from "./timeline";
+
+export type GridSlot = {
+  pos: GridPos;
+  cellInBar: number; // fractional cells from the bar start
+  widthCells: number;
+  label: string;
+  weight: GridLineWeight;
+};
+
+/**
+ * Tuplet divisions for a written beat, or null for the regular grid.
+ * A span for a specific beat wins over a whole-bar span.
+ */
+export function tupletDivisionsAt(
+  tuplets: TupletSpan[] | undefined,
+  barIndex: number,
+  beat: number
+): number | null {
+  let whole: number | null = null;
+  for (const t of tuplets ?? []) {
+    if (t.barIndex !== barIndex || t.divisions < 2) continue;
+    if (t.beat === beat) return t.divisions;
+    if (t.beat === undefined) whole = t.divisions;
+  }
+  return whole;
+}
+
+const TRIPLET_SYLLABLES = ["trip", "let"];
+
+/**
+ * Clickable grid positions for one bar: `subdivision` cells per written beat,
+ * or `divisions` slots on beats covered by a tuplet span.
+ * Pickup bars are counted from the end of a full bar (their first cell may be "4").
+ */
+export function barGridSlots(
+  bar: BarInfo,
+  subdivision: number,
+  tuplets?: TupletSpan[]
+): GridSlot[] {
+  const sub = Math.max(1, subdivision);
+  const ts: TimeSignature = bar.timeSignature;
+  const fullCells = Math.max(1, ts.beatsPerBar) * sub;
+  const countOffset = bar.pickup ? Math.max(0, fullCells - bar.cells) : 0;
+
+  const slots: GridSlot[] = [];
+  let cellInBar = 0;
+
+  while (cellInBar < bar.cells) {
+    const countCell = cellInBar + countOffset;
+    const beat = Math.floor(countCell / sub);
+    const beatStartInBar = beat * sub - countOffset;
+    const wholeBeatInBar = beatStartInBar === cellInBar && beatStartInBar + sub <= bar.cells;
+
+    const divisions = wholeBeatInBar ? tupletDivisionsAt(tuplets, bar.barIndex, beat) : null;
+
+    if (divisions) {
+      for (let k = 0; k < divisions; k++) {
+        const pos = gridPos(bar.startCell + cellInBar, k * sub, divisions);
+        slots.push({
+          pos,
+          cellInBar: posOf(pos) - bar.startCell,
+          widthCells: sub / divisions,
+          label:
+            k === 0
+              ? countLabel(countCell, ts, sub)
+              : divisions === 3
+              ? TRIPLET_SYLLABLES[k - 1]
+              : "·",
+          weight: k === 0 ? gridLineWeight(countCell, ts, sub) : "sub",
+        });
+      }
+      cellInBar += sub;
+      continue;
+    }
+
+    slots.push({
+      pos: { cell: bar.startCell + cellInBar },
+      cellInBar,
+      widthCells: 1,
+      label: countLabel(countCell, ts, sub),
+      weight: gridLineWeight(countCell, ts, sub),
+    });
+    cellInBar += 1;
+  }
+
+  return slots;
+}
+
+/**
+ * Beats played as tuplets in one bar, as cells from the bar start, for the printed
+ * tuplet brackets. Same beats as `barGridSlots` splits, so pickups count from the end.
+ */
+export function barTupletBeats(
+  bar: BarInfo,
+  subdivision: number,
+  tuplets?: TupletSpan[]
+): { cellInBar: number; cells: number; divisions: number }[] {
+  const sub = Math.max(1, subdivision);
+  const fullCells = Math.max(1, bar.timeSignature.beatsPerBar) * sub;
+  const countOffset = bar.pickup ? Math.max(0, fullCells - bar.cells) : 0;
+
+  const out: { cellInBar: number; cells: number; divisions: number }[] = [];
+  for (let beat = 0; beat * sub < fullCells; beat++) {
+    const cellInBar = beat * sub - countOffset;
+    if (cellInBar < 0 || cellInBar + sub > bar.cells) continue;
+    const divisions = tupletDivisionsAt(tuplets, bar.barIndex, beat);
+    if (divisions) out.push({ cellInBar, cells: sub, divisions });
+  }
+  return out;
+}
+
+/**
+ * Set the tuplet for one beat (or the whole bar when `beat` is undefined);
+ * `divisions` < 2 clears it.
+ */
+export function setTuplet(
+  tuplets: TupletSpan[] | undefined,
+  barIndex: number,
+  beat: number | undefined,
+  divisions: number
+): TupletSpan[] {
+  const rest = (tuplets ?? []).filter((t) => !(t.barIndex === barIndex && t.beat === beat));
+  if (!Number.isFinite(divisions) || divisions < 2) return rest;
+
+  const next: TupletSpan = beat === undefined ? { barIndex, divisions } : { barIndex, beat, divisions };
+  return [...rest, next].sort((a, b) => a.barIndex - b.barIndex || (a.beat ?? -1) - (b.beat ?? -1));
+}
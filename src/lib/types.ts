@@ -3,17 +3,72 @@ export type TimeSignature = {
   beatUnit: number; // e.g. 4 (quarter note)
 };
 
+// Exact fraction of a cell, for positions that fall between grid cells (tuplets):
+// the event sits at `cell + num / den`. Always 0 < num < den, reduced.
+export type CellOffset = {
+  num: number;
+  den: number;
+};
+
 export type ChordEvent = {
   id: string;
-  cell: number; // absolute cell index from start of section (0-based)
-  symbol: string; // e.g. "G", "A", "Bm7/F#"
+  cell: number; // absolute cell index from start of section (0-based; a pickup bar starts at 0)
+  offset?: CellOffset; // off-grid (tuplet) position inside `cell`
+  symbol: string; // e.g. "G", "A", "Bm7/F#"; "N.C." for a no-chord, "" for a rest
+  kind?: ChordEventKind; // absent = a chord
+  articulations?: Articulation[]; // hits, stops, pushes... (see lib/articulations)
 };
 
+// Events that stop the previous chord: "N.C." (band out, written as such) or a rest.
+export type ChordEventKind = "noChord" | "rest";
+
+export type Articulation = "accent" | "staccato" | "push" | "fermata" | "tie";
+
+// ">>" per chord, a slash per beat across the bar, or the number of beats.
+export type DurationStyle = "ticks" | "slashes" | "counts";
+
 // NEW: anchors are by character index in lyrics (caret-based)
 export type LyricAnchor = {
   id: string;
   charIndex: number; // 0..lyrics.length
   cell: number; // absolute cell index (same timeline as chords)
+  offset?: CellOffset; // off-grid (tuplet) position inside `cell`
+};
+
+// Tuplet grid override: written beats in a bar divided into `divisions` equal slots
+// (3 = triplet) instead of `subdivision` cells.
+export type TupletSpan = {
+  barIndex: number;
+  beat?: number; // written beat in the bar (0-based); missing = every beat of the bar
+  divisions: number;
+};
+
+// Time signature change taking effect at the start of `barIndex` (until the next change).
+export type MeterChange = {
+  barIndex: number;
+  timeSignature: TimeSignature;
+};
+
+export type NavigationJump =
+  | "D.C."
+  | "D.C. al Fine"
+  | "D.C. al Coda"
+  | "D.S."
+  | "D.S. al Fine"
+  | "D.S. al Coda";
+
+// Bar-level navigation markup (repeats, endings, Segno/Coda jumps).
+export type BarNavigation = {
+  barIndex: number; // bar within the section (0-based)
+  repeatStart?: boolean; // |:
+  repeatEnd?: boolean; // :|
+  repeatTimes?: number; // total passes for repeatEnd (default 2)
+  volta?: number[]; // ending bracket numbers, e.g. [1] or [2, 3]
+  segno?: boolean;
+  coda?: boolean; // Coda target (bar starts the coda)
+  toCoda?: boolean; // "To Coda" at the end of this bar
+  jump?: NavigationJump; // at the end of this bar
+  fine?: boolean; // Fine at the end of this bar
 };
 
 export type Section = {
@@ -22,6 +77,33 @@ export type Section = {
   lyrics: string; // raw text
   chords: ChordEvent[];
   anchors: LyricAnchor[];
+  navigation?: BarNavigation[];
+  meterChanges?: MeterChange[];
+  pickupBeats?: number; // anacrusis before bar 1: a short bar 0 at cells [0, pickupBeats * subdivision)
+  tuplets?: TupletSpan[];
+  barCount?: number; // full bars (pickup excluded); the timeline still grows to fit later chords/anchors
+};
+
+// Song form: ordered references into `sections`, so a Chorus can be played
+// several times without duplicating its content.
+export type FormEntry = {
+  id: string;
+  sectionId: string;
+  repeat?: number; // consecutive passes (default 1)
+};
+
+// How repeated form entries are laid out: every pass drawn out, or once with a "×N" marker.
+export type FormLayout = "expand" | "marker";
+
+// Concert pitch, or a transposing instrument by the key it's pitched in.
+export type Instrument = "concert" | "Bb" | "Eb" | "F";
+
+// A named way to print the chart ("Guitar, capo 3", "Alto part"). Unset fields fall back to the doc.
+export type PrintVariant = {
+  id: string;
+  name: string;
+  capo?: number;
+  instrument?: Instrument; // transposing-instrument part (written key); the capo is ignored for these
 };
 
 export type LeadSheetDoc = {
@@ -34,6 +116,17 @@ export type LeadSheetDoc = {
 
   timeSignature: TimeSignature;
   subdivision: number; // cells per beat (1=beats, 2=8ths in 4/4, etc.)
+  swing?: boolean; // swung 8ths (performance note; the grid stays straight)
+  chordDisplay?: "letters" | "nashville"; // nashville: numbers relative to displayKey
+  showAnalysis?: boolean; // Roman numeral row under the chords in the editor
+  printAnalysis?: boolean; // ...and on the printed chart
+  durationStyle?: DurationStyle; // how chord lengths are marked over the chords (default "ticks")
+  spelling?: "key" | "simplified"; // chord spelling in the display key (default "key": E# in F#, Cb in Gb)
+  capo?: number; // fret; chords are shown as shapes (displayKey down by the capo), still sounding in displayKey
+  printVariants?: PrintVariant[];
+  pinnedChords?: string[]; // favourites in the chord palette, stored in originalKey like the chords
   sections: Section[];
+  form?: FormEntry[]; // empty/missing = sections in order
+  formLayout?: FormLayout; // default "marker"
   updatedAt: string; // ISO timestamp
 };